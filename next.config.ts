@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native ONNX runtime for the local embedding model; load it from node_modules instead of bundling
+  serverExternalPackages: ["@huggingface/transformers", "onnxruntime-node"],
 };
 
 export default nextConfig;
@@ -0,0 +1,77 @@
+/**
+ * Cache Admin API Route.
+ * GET    /api/admin/cache?prefix=reddit-search - List keys (TTL remaining, size) and hit/miss counters
+ * DELETE /api/admin/cache?key=...              - Delete a single key
+ * DELETE /api/admin/cache?prefix=filter        - Delete every key under a prefix
+ *
+ * Requires the `x-admin-token` header to match ADMIN_TOKEN. Without ADMIN_TOKEN the
+ * route is only available outside production.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheDelete, cacheDeletePrefix, cacheList, getCacheStats } from '@/lib/cache';
+
+const MAX_LISTED_KEYS = 500;
+
+function isAuthorized(request: NextRequest): boolean {
+    const adminToken = process.env.ADMIN_TOKEN;
+    if (!adminToken) return process.env.NODE_ENV !== 'production';
+    return request.headers.get('x-admin-token') === adminToken;
+}
+
+function unauthorized() {
+    return NextResponse.json({ error: 'Admin token required' }, { status: 401 });
+}
+
+export async function GET(request: NextRequest) {
+    if (!isAuthorized(request)) return unauthorized();
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const prefix = searchParams.get('prefix')?.trim().toLowerCase() || '';
+
+        const [stats, keys] = await Promise.all([
+            getCacheStats(),
+            cacheList(prefix, MAX_LISTED_KEYS),
+        ]);
+
+        return NextResponse.json({ ...stats, prefix, keys, truncated: keys.length >= MAX_LISTED_KEYS });
+    } catch (error) {
+        console.error('Cache admin list error:', error);
+        return NextResponse.json(
+            { error: 'Failed to inspect cache.', detail: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    if (!isAuthorized(request)) return unauthorized();
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const key = searchParams.get('key')?.trim();
+        const prefix = searchParams.get('prefix')?.trim().toLowerCase();
+
+        if (key) {
+            await cacheDelete(key);
+            return NextResponse.json({ deleted: 1 });
+        }
+
+        if (prefix) {
+            const deleted = await cacheDeletePrefix(prefix);
+            return NextResponse.json({ deleted });
+        }
+
+        return NextResponse.json(
+            { error: 'Provide a key or prefix to delete' },
+            { status: 400 }
+        );
+    } catch (error) {
+        console.error('Cache admin delete error:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete cache entries.', detail: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
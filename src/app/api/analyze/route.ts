@@ -1,10 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPostDetails } from '@/lib/reddit';
+import { getPostDetails, flattenComments, isRemovedBody } from '@/lib/reddit';
 import { generateContentIdeas, generateViralHooks } from '@/lib/ai';
-import { RedditPost } from '@/types';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limiter';
+import { RedditApiError } from '@/lib/reddit-scheduler';
+import { RedditComment, RedditPost } from '@/types';
+
+const COMMENTS_PER_POST = 15;
+const COMMENT_BODY_LIMIT = 500;
+
+/**
+ * Renders a comment tree as indented text for the prompt, keeping replies
+ * under their parents so the model sees the conversation structure.
+ */
+function formatCommentsForPrompt(comments: RedditComment[]): string {
+    return flattenComments(comments)
+        .filter((comment) => comment.body && !isRemovedBody(comment.body))
+        .slice(0, COMMENTS_PER_POST)
+        .map((comment) => {
+            const indent = '  '.repeat(comment.depth);
+            const marker = comment.depth === 0 ? '-' : '↳';
+            const body = comment.body.replace(/\s+/g, ' ').slice(0, COMMENT_BODY_LIMIT);
+            return `${indent}${marker} (${comment.score} pts) ${body}`;
+        })
+        .join('\n');
+}
 
 export async function POST(request: NextRequest) {
     try {
+        const rateCheck = checkRateLimit(request, 'analyze');
+        if (!rateCheck.allowed) {
+            return NextResponse.json(
+                {
+                    error: 'Rate limit exceeded. Please wait before generating more ideas.',
+                    retryAfter: rateCheck.retryAfter,
+                },
+                { status: 429, headers: rateLimitHeaders(rateCheck) }
+            );
+        }
+
         const body = await request.json();
         const { posts, ideasPrompt, hooksPrompt } = body;
         const apiKeyOverride = request.headers.get('x-groq-api-key') || undefined;
@@ -22,11 +55,25 @@ export async function POST(request: NextRequest) {
 
         console.log(`Analyzing ${topPosts.length} posts for topic: ${topic}`);
 
-        // Fetch comments for these posts in parallel
+        // Fetch comments for these posts in parallel (the outbound scheduler paces the requests)
+        let redditError: RedditApiError | null = null;
         const postsData = await Promise.all(
             topPosts.map(async (post: RedditPost) => {
-                const permalink = post.link.replace('https://www.reddit.com', '');
-                const comments = await getPostDetails(permalink);
+                // `link` is the external URL for link posts, so without a permalink there's no thread to read
+                let tree: RedditComment[] = [];
+                if (post.permalink) {
+                    try {
+                        ({ comments: tree } = await getPostDetails(post.permalink, {
+                            maxDepth: 2,
+                            maxComments: 40,
+                        }));
+                    } catch (error) {
+                        console.warn(`Skipping post ${post.id}, comments could not be fetched:`, error);
+                        if (error instanceof RedditApiError) redditError = error;
+                        return '';
+                    }
+                }
+                const comments = formatCommentsForPrompt(tree);
 
                 return `
                 Title: ${post.title}
@@ -42,6 +89,16 @@ export async function POST(request: NextRequest) {
         const validDiscussions = postsData.filter(text => text.trim().length > 0);
 
         if (validDiscussions.length === 0) {
+            if (redditError) {
+                const { httpStatus, retryAfterSeconds, message } = redditError as RedditApiError;
+                return NextResponse.json(
+                    { error: `Could not fetch details for selected posts: ${message}` },
+                    {
+                        status: httpStatus,
+                        headers: retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : undefined,
+                    }
+                );
+            }
             return NextResponse.json(
                 { error: 'Could not fetch details for selected posts.' },
                 { status: 500 }
@@ -61,11 +118,15 @@ export async function POST(request: NextRequest) {
             return { ...idea, hooks: ideaHooks };
         });
 
+        // Surface schema failures so the client can explain missing or partial ideas
+        const llmIssues = [ideasResult.issue, hooksResult.issue].filter((issue) => issue !== undefined);
+
         // Return the latest rate limit info (from whichever finished last)
         return NextResponse.json({
             ideas,
             rateLimit: hooksResult.rateLimit,
-        });
+            llmIssues,
+        }, { headers: rateLimitHeaders(rateCheck) });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.error('Error in analyze route:', errorMessage, error);
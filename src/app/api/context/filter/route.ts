@@ -1,22 +1,43 @@
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after as runAfterResponse } from 'next/server';
 import { generateSearchQueries, filterPostsByContext } from '@/lib/ai';
 import { searchReddit } from '@/lib/reddit';
-import { deduplicateWithBonus, heuristicScore } from '@/lib/heuristics';
+import { RedditApiError } from '@/lib/reddit-scheduler';
+import { classifyIntentHeuristically, deduplicateWithBonus, heuristicScore } from '@/lib/heuristics';
 import { semanticFilter } from '@/lib/embeddings';
-import { cacheGet, cacheSet, makeCacheKey, TTL } from '@/lib/cache';
-import { ContextSearchResponse, RedditPost } from '@/types';
+import { cacheGetStamped, cacheSetStamped, makeCacheKey, revalidateInBackground, TTL } from '@/lib/cache';
+import { parseSubreddits } from '@/lib/subreddits';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limiter';
+import { formatSseEvent } from '@/lib/sse';
+import { engagementScore, fusionWeights, parsePipelineConfig, pipelineConfigKey } from '@/lib/pipeline-config';
+import { bm25Scores, fuseRankings, titleContainsPhrase } from '@/lib/ranking';
+import { clusterPosts } from '@/lib/clustering';
+import { hasSearchSyntax, queryText } from '@/lib/reddit-query';
+import { DateBounds, dateRangeKey, isTimeRange, parseDateRange } from '@/lib/date-range';
+import { ContextPipelineEvent, ContextSearchResponse, LlmOutputIssue, PipelineConfig, QueryIntent, RedditPost, TimeRange } from '@/types';
+
+type EmitStage = (event: ContextPipelineEvent) => void;
+
+/**
+ * Where and when the Reddit fan-out searches.
+ */
+interface SearchScope {
+    subreddits: string[];
+    time: TimeRange;
+    range: DateBounds | null; // Custom from/to bounds; overrides `time`
+}
 
 function normalizeQuery(value: string): string {
     return value.trim().replace(/\s+/g, ' ');
 }
 
-function buildSearchQueries(userQuery: string, aiQueries: string[]): string[] {
+function buildSearchQueries(userQuery: string, aiQueries: string[], maxQueries: number): string[] {
     const base = normalizeQuery(userQuery);
     const escapedPhrase = base.replace(/"/g, '\\"');
     const queries: string[] = [];
 
-    if (base.includes(' ')) {
+    // Hand-written Reddit syntax (fields, operators, quotes) is searched as typed
+    if (base.includes(' ') && !hasSearchSyntax(base)) {
         // Match exact phrase first to avoid drifting into loosely related keyword matches.
         queries.push(`"${escapedPhrase}"`);
     }
@@ -37,126 +58,365 @@ function buildSearchQueries(userQuery: string, aiQueries: string[]): string[] {
         queries.push(clean);
     }
 
-    return queries.slice(0, 4);
+    return queries.slice(0, maxQueries);
+}
+
+/**
+ * Sets `fusionScore` on each post from its component scores.
+ */
+function withFusionScores<T extends RedditPost>(posts: T[], config: PipelineConfig): T[] {
+    const fused = fuseRankings(posts, fusionWeights(config), config.fusionK);
+    return posts.map((post) => ({ ...post, fusionScore: fused.get(post.id) ?? 0 }));
+}
+
+/**
+ * Runs the full context pipeline: query expansion, Reddit fan-out, lexical and
+ * semantic filtering, rank-fusion pre-ranking and AI relevance scoring.
+ * `scope` restricts the fan-out to communities and a time window or date range.
+ * `config` sets the query/candidate caps, relevance cut-offs and engagement weights.
+ * `emit` receives a stage event as each step produces results.
+ */
+async function runContextPipeline(
+    userQuery: string,
+    scope: SearchScope,
+    apiKey: string | undefined,
+    config: PipelineConfig,
+    emit: EmitStage = () => undefined
+): Promise<ContextSearchResponse> {
+    const { subreddits } = scope;
+
+    // 1. Intent Analysis (best-effort)
+    let aiQueries: string[] = [];
+    let intent: QueryIntent = 'unknown';
+    const llmIssues: LlmOutputIssue[] = [];
+    try {
+        const generated = await generateSearchQueries(userQuery, apiKey);
+        aiQueries = generated.queries;
+        intent = generated.intent;
+        if (generated.issue) llmIssues.push(generated.issue);
+    } catch (error) {
+        console.warn('Intent query generation failed, falling back to exact query search:', error);
+    }
+    if (intent === 'unknown') intent = classifyIntentHeuristically(userQuery);
+
+    const queries = buildSearchQueries(userQuery, aiQueries, config.maxQueries);
+    emit({ stage: 'queries', queries, intent });
+
+    // 2. Distributed Search (Server-Side)
+    const results = await Promise.allSettled(
+        queries.map(async (query) => {
+            try {
+                const posts = await searchReddit(query, 25, 'relevance', scope.time, subreddits, scope.range);
+                emit({ stage: 'reddit', query, count: posts.length });
+                return posts;
+            } catch (error) {
+                emit({ stage: 'reddit', query, count: 0, failed: true });
+                throw error;
+            }
+        })
+    );
+
+    // One failed query shouldn't sink the batch, but if Reddit failed every query, say so
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failures.length === results.length) {
+        throw failures[0].reason;
+    }
+    failures.forEach((failure) => console.warn('Reddit query failed in context search:', failure.reason));
+
+    const allResults = results.map((result) => (result.status === 'fulfilled' ? result.value : []));
+
+    // 3. Deduplication, Clustering & Lexical Scoring
+    const deduplicatedById = deduplicateWithBonus(allResults);
+    const deduplicated = clusterPosts(deduplicatedById);
+    const duplicatesFolded = deduplicatedById.length - deduplicated.length;
+    // Score against the query's words, not its field names and operators
+    const scoringText = queryText(userQuery);
+    const bm25 = bm25Scores(deduplicated, scoringText);
+    const uniquePosts = deduplicated.map((post) => ({
+        ...post,
+        bm25Score: bm25.get(post.id) ?? 0,
+        lexicalMatch: titleContainsPhrase(post, scoringText),
+    }));
+    emit({ stage: 'candidates', unique: uniquePosts.length });
+
+    if (uniquePosts.length === 0) {
+        return { posts: [], queryContext: queries, filterStats: { input: 0, output: 0, config }, intent, llmIssues };
+    }
+
+    // 4. Semantic Filtering (Embeddings) — the similarity threshold adapts to the intent
+    const {
+        posts: semanticPass,
+        backend: embeddingBackend,
+        cacheHits: embeddingCacheHits,
+    } = await semanticFilter(uniquePosts, scoringText, intent);
+
+    // Exact-phrase title matches (often names) survive even when embeddings score them low
+    const passedIds = new Set(semanticPass.map((post) => post.id));
+    const rescued = uniquePosts.filter((post) => post.lexicalMatch && !passedIds.has(post.id));
+    const semanticallyFiltered = [...semanticPass, ...rescued];
+    emit({ stage: 'semantic', input: uniquePosts.length, passed: semanticallyFiltered.length });
+
+    // If nothing passes semantic filter, return stat
+    if (semanticallyFiltered.length === 0) {
+        return {
+            posts: [],
+            queryContext: queries,
+            filterStats: {
+                input: uniquePosts.length,
+                semanticPass: 0,
+                lexicalRescued: 0,
+                duplicatesFolded,
+                output: 0,
+                config,
+                embeddingBackend,
+                embeddingCacheHits,
+            },
+            intent,
+            llmIssues,
+        };
+    }
+
+    // 5. Pre-Ranking (Rank Fusion of BM25, semantic, heuristic and frequency signals)
+    // Send the best candidates to AI
+    const preRanked = withFusionScores(
+        semanticallyFiltered.map((post: RedditPost) => ({ ...post, hScore: heuristicScore(post) })),
+        config
+    )
+        .sort((a, b) => (b.fusionScore ?? 0) - (a.fusionScore ?? 0))
+        .slice(0, config.maxCandidates); // Cap what goes to AI analysis
+
+    // 6. AI Semantic Filtering
+    const { filteredPosts, issues } = await filterPostsByContext(
+        preRanked,
+        userQuery,
+        apiKey,
+        (posts, batch, totalBatches) => emit({ stage: 'scoring', batch, totalBatches, posts })
+    );
+    llmIssues.push(...issues);
+
+    // 7. Final Scoring & Sort
+    // Step 1: keep only relevant posts (AI relevance >= minRelevance).
+    // Step 2: within relevant posts, order by weighted engagement or by the fused score
+    // (which now includes AI relevance), per `config.order`.
+    const relevanceTier = (score: number) =>
+        score >= config.highRelevance ? 2 : score >= config.minRelevance ? 1 : 0;
+    const withinTier = (post: RedditPost) =>
+        config.order === 'fusion' ? post.fusionScore ?? 0 : engagementScore(post, config);
+
+    const finalResults = withFusionScores(filteredPosts, config)
+        .filter((post) => (post.relevanceScore ?? 0) >= config.minRelevance)
+        .sort((a, b) => {
+            const aRelevance = a.relevanceScore ?? 0;
+            const bRelevance = b.relevanceScore ?? 0;
+
+            const tierDiff = relevanceTier(bRelevance) - relevanceTier(aRelevance);
+            if (tierDiff !== 0) return tierDiff;
+
+            const orderDiff = withinTier(b) - withinTier(a);
+            if (orderDiff !== 0) return orderDiff;
+
+            return bRelevance - aRelevance;
+        });
+
+    return {
+        posts: finalResults,
+        queryContext: queries,
+        filterStats: {
+            input: uniquePosts.length,
+            semanticPass: semanticPass.length,
+            lexicalRescued: rescued.length,
+            duplicatesFolded,
+            analyzed: preRanked.length,
+            output: finalResults.length,
+            config,
+            embeddingBackend,
+            embeddingCacheHits,
+        },
+        totalResults: finalResults.length,
+        query: userQuery,
+        subreddits,
+        intent,
+        llmIssues,
+    };
+}
+
+/**
+ * Maps a pipeline failure to a status code and client-facing body.
+ */
+function describeError(error: unknown): { status: number; error: string; details: string; retryAfterSeconds?: number } {
+    if (error instanceof RedditApiError) {
+        return {
+            status: error.httpStatus,
+            error: 'Reddit search failed',
+            details: error.message,
+            retryAfterSeconds: error.retryAfterSeconds,
+        };
+    }
+    return {
+        status: 500,
+        error: 'Search Pipeline Failed',
+        details: error instanceof Error ? error.message : String(error),
+    };
+}
+
+/**
+ * Streams stage events as Server-Sent Events while `run` executes.
+ * Failures become a final `error` event, since the 200 status is already sent.
+ */
+function streamStages(run: (emit: EmitStage) => Promise<void>, headers: Record<string, string> = {}): Response {
+    const encoder = new TextEncoder();
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const emit: EmitStage = (event) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(formatSseEvent(event.stage, event)));
+                } catch {
+                    closed = true; // Client went away; keep running so the result still gets cached
+                }
+            };
+
+            try {
+                await run(emit);
+            } catch (error) {
+                console.error('Filter API Error:', error);
+                const { status, error: message, details } = describeError(error);
+                emit({ stage: 'error', error: message, details, status });
+            } finally {
+                if (!closed) controller.close();
+                closed = true;
+            }
+        },
+        cancel() {
+            closed = true;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            ...headers,
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    });
 }
 
 export async function POST(req: NextRequest) {
     try {
-        const body = (await req.json()) as { query?: string };
+        const body = (await req.json()) as {
+            query?: string;
+            subreddits?: string[] | string;
+            time?: unknown;
+            from?: unknown;
+            to?: unknown;
+            pipeline?: unknown;
+        };
         const userQuery = typeof body.query === 'string' ? normalizeQuery(body.query) : '';
+        const subreddits = parseSubreddits(body.subreddits);
         const apiKey = req.headers.get('x-groq-api-key') || undefined;
+        const wantsStream = req.headers.get('accept')?.includes('text/event-stream') ?? false;
 
         // 1. Validation
         if (!userQuery || userQuery.length < 2) {
             return NextResponse.json({ error: 'Query required' }, { status: 400 });
         }
-
-        // 2. Cache Check (Full Response)
-        const cacheKey = makeCacheKey('filter', userQuery);
-        const cached = await cacheGet<ContextSearchResponse>(cacheKey);
-        if (cached) {
-            return NextResponse.json({ ...cached, cached: true });
+        if (userQuery.length > 200) {
+            return NextResponse.json({ error: 'Query must be less than 200 characters' }, { status: 400 });
         }
 
-        // 3. Intent Analysis (best-effort)
-        let aiQueries: string[] = [];
-        try {
-            const generated = await generateSearchQueries(userQuery, apiKey);
-            aiQueries = generated.queries;
-        } catch (error) {
-            console.warn('Intent query generation failed, falling back to exact query search:', error);
+        const parsedConfig = parsePipelineConfig(body.pipeline);
+        if (!parsedConfig.ok) {
+            return NextResponse.json(
+                { error: 'Invalid pipeline config', details: parsedConfig.errors.join('; ') },
+                { status: 400 }
+            );
         }
-        const queries = buildSearchQueries(userQuery, aiQueries);
+        const { config } = parsedConfig;
 
-        // 4. Distributed Search (Server-Side)
-        const results = await Promise.allSettled(
-            queries.map((query) => searchReddit(query, 25, 'relevance'))
-        );
+        const time = body.time ?? 'all';
+        if (!isTimeRange(time)) {
+            return NextResponse.json({ error: 'Invalid time parameter' }, { status: 400 });
+        }
+        const dateRange = parseDateRange({ from: body.from, to: body.to });
+        if (!dateRange.ok) {
+            return NextResponse.json({ error: 'Invalid date range', details: dateRange.error }, { status: 400 });
+        }
+        const scope: SearchScope = { subreddits, time, range: dateRange.bounds };
+        const rangeKey = dateRangeKey({
+            from: typeof body.from === 'string' ? body.from : undefined,
+            to: typeof body.to === 'string' ? body.to : undefined,
+        });
 
-        const allResults = results.map((result) => (result.status === 'fulfilled' ? result.value : []));
+        const worthCaching = (response: ContextSearchResponse) =>
+            response.posts.length > 0 ? response : null;
 
-        // 5. Deduplication & Heuristics
-        const uniquePosts = deduplicateWithBonus(allResults);
+        // 2. Cache Check (Full Response) — serve stale results and refresh after responding
+        const cacheKey = makeCacheKey('filter', pipelineConfigKey(config), subreddits.join('+') || 'all', time, rangeKey, userQuery);
+        const cached = await cacheGetStamped<ContextSearchResponse>(cacheKey);
+        if (cached) {
+            const isStale = cached.age >= TTL.SEARCH_RESULTS_SOFT;
+            if (isStale) {
+                runAfterResponse(() => revalidateInBackground(
+                    cacheKey,
+                    async () => worthCaching(await runContextPipeline(userQuery, scope, apiKey, config)),
+                    TTL.SEARCH_RESULTS
+                ));
+            }
+            const response: ContextSearchResponse = {
+                ...cached.value,
+                cached: true,
+                cacheAge: cached.age,
+                refreshing: isStale,
+            };
+            if (wantsStream) {
+                return streamStages(async (emit) => emit({ stage: 'done', response }));
+            }
+            return NextResponse.json(response);
+        }
 
-        if (uniquePosts.length === 0) {
-            return NextResponse.json({ posts: [], filterStats: { input: 0, output: 0 } });
+        // 3. Rate Limit (only fresh pipeline runs cost a token)
+        const rateCheck = checkRateLimit(req, 'context-filter');
+        if (!rateCheck.allowed) {
+            return NextResponse.json(
+                {
+                    error: 'Rate limit exceeded. Context searches are expensive — please wait before trying again.',
+                    retryAfter: rateCheck.retryAfter,
+                },
+                { status: 429, headers: rateLimitHeaders(rateCheck) }
+            );
         }
 
-        // 6. Semantic Filtering (Embeddings)
-        // Determine intent type loosely from queries or pass it down. 
-        // For now, defaulting to 'unknown' or inferring from the query structure could be complex.
-        // We'll trust the adaptiveThreshold default.
-        const semanticallyFiltered = await semanticFilter(uniquePosts, userQuery, 'unknown');
-
-        // If nothing passes semantic filter, return stat
-        if (semanticallyFiltered.length === 0) {
-            return NextResponse.json({
-                posts: [],
-                queryContext: queries,
-                filterStats: {
-                    input: uniquePosts.length,
-                    semanticPass: 0,
-                    output: 0
+        if (wantsStream) {
+            return streamStages(async (emit) => {
+                const response = await runContextPipeline(userQuery, scope, apiKey, config, emit);
+                if (worthCaching(response)) {
+                    await cacheSetStamped(cacheKey, response, TTL.SEARCH_RESULTS);
                 }
-            });
+                emit({ stage: 'done', response });
+            }, rateLimitHeaders(rateCheck));
         }
 
-        // 7. Pre-Ranking (Heuristic)
-        // Sort by naive heuristic score to send best candidates to AI
-        const preRanked = semanticallyFiltered
-            .map((post: RedditPost) => ({ ...post, hScore: heuristicScore(post) }))
-            .sort((a, b) => (b.hScore || 0) - (a.hScore || 0))
-            .slice(0, 30); // Cap at 30 for AI analysis
-
-        // 7. AI Semantic Filtering
-        const { filteredPosts } = await filterPostsByContext(preRanked, userQuery, apiKey);
-
-        // 8. Final Scoring & Sort
-        // Step 1: keep only relevant posts (AI relevance >= 6).
-        // Step 2: within relevant posts, order by engagement (upvotes + comments).
-        const relevanceTier = (score: number) => (score >= 8 ? 2 : score >= 6 ? 1 : 0);
-        const engagementScore = (post: RedditPost) => post.upvotes + post.comments;
-
-        const finalResults = filteredPosts
-            .filter((post) => (post.relevanceScore ?? 0) >= 6)
-            .sort((a, b) => {
-                const aRelevance = a.relevanceScore ?? 0;
-                const bRelevance = b.relevanceScore ?? 0;
-
-                const tierDiff = relevanceTier(bRelevance) - relevanceTier(aRelevance);
-                if (tierDiff !== 0) return tierDiff;
-
-                const engagementDiff = engagementScore(b) - engagementScore(a);
-                if (engagementDiff !== 0) return engagementDiff;
-
-                return bRelevance - aRelevance;
-            });
-
-        const response: ContextSearchResponse = {
-            posts: finalResults,
-            queryContext: queries,
-            filterStats: {
-                input: uniquePosts.length,
-                semanticPass: semanticallyFiltered.length,
-                analyzed: preRanked.length,
-                output: finalResults.length
-            },
-            totalResults: finalResults.length,
-            query: userQuery,
-        };
+        const response = await runContextPipeline(userQuery, scope, apiKey, config);
 
-        // 9. Cache Success
-        if (finalResults.length > 0) {
-            await cacheSet(cacheKey, response, TTL.SEARCH_RESULTS);
+        // 4. Cache Success
+        if (worthCaching(response)) {
+            await cacheSetStamped(cacheKey, response, TTL.SEARCH_RESULTS);
         }
 
-        return NextResponse.json(response);
+        return NextResponse.json(response, { headers: rateLimitHeaders(rateCheck) });
 
     } catch (error: unknown) {
         console.error('Filter API Error:', error);
+        const { status, error: message, details, retryAfterSeconds } = describeError(error);
         return NextResponse.json(
-            { error: 'Search Pipeline Failed', details: error instanceof Error ? error.message : String(error) },
-            { status: 500 }
+            { error: message, details },
+            {
+                status,
+                headers: retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : undefined,
+            }
         );
     }
 }
@@ -2,6 +2,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateSearchQueries } from '@/lib/ai';
 import { cacheGet, cacheSet, makeCacheKey, TTL } from '@/lib/cache';
+import { classifyIntentHeuristically } from '@/lib/heuristics';
+import { QueryIntent } from '@/types';
 
 export async function POST(req: NextRequest) {
     try {
@@ -18,17 +20,23 @@ export async function POST(req: NextRequest) {
 
         // 2. Check Cache
         const cacheKey = makeCacheKey('intent', cleanQuery);
-        const cached = await cacheGet<{ queries: string[] }>(cacheKey);
+        const cached = await cacheGet<{ queries: string[]; intent: QueryIntent }>(cacheKey);
         if (cached) {
             return NextResponse.json(cached);
         }
 
         // 3. Generate
         const apiKey = req.headers.get('x-groq-api-key') || undefined;
-        const result = await generateSearchQueries(cleanQuery, apiKey);
-
-        // 4. Cache Result
-        await cacheSet(cacheKey, result, TTL.INTENT_ANALYSIS);
+        const generated = await generateSearchQueries(cleanQuery, apiKey);
+        const result = {
+            ...generated,
+            intent: generated.intent === 'unknown' ? classifyIntentHeuristically(cleanQuery) : generated.intent,
+        };
+
+        // 4. Cache Result (unless the model's output was unusable, so a retry gets a fresh attempt)
+        if (!result.issue || result.issue.repaired) {
+            await cacheSet(cacheKey, result, TTL.INTENT_ANALYSIS);
+        }
 
         return NextResponse.json(result);
 
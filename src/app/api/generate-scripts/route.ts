@@ -14,9 +14,9 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { scripts, rateLimit } = await generateVideoScripts(hook, concept, scriptsPrompt || undefined, apiKeyOverride);
+        const { scripts, rateLimit, issue } = await generateVideoScripts(hook, concept, scriptsPrompt || undefined, apiKeyOverride);
 
-        return NextResponse.json({ ...scripts, rateLimit });
+        return NextResponse.json({ ...scripts, rateLimit, llmIssues: issue ? [issue] : [] });
     } catch (error) {
         console.error('Error in generate-scripts route:', error);
         return NextResponse.json(
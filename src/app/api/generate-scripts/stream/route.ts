@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { streamVideoScripts } from '@/lib/ai';
+import { formatSseEvent } from '@/lib/sse';
+import { ScriptStreamEvent } from '@/types';
+
+/**
+ * Streams script generation as Server-Sent Events: `delta` frames carry new text
+ * for one variation, followed by a single `done` (or `error`) frame.
+ * Closing the connection cancels generation upstream.
+ */
+export async function POST(request: NextRequest) {
+    let body: { hook?: string; concept?: string; scriptsPrompt?: string };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+    }
+
+    const { hook, concept, scriptsPrompt } = body;
+    const apiKeyOverride = request.headers.get('x-groq-api-key') || undefined;
+
+    if (!hook || !concept) {
+        return NextResponse.json(
+            { error: 'Missing hook or concept in request body.' },
+            { status: 400 }
+        );
+    }
+
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: ScriptStreamEvent) => {
+                controller.enqueue(encoder.encode(formatSseEvent(event.type, event)));
+            };
+
+            try {
+                for await (const event of streamVideoScripts(hook, concept, scriptsPrompt || undefined, apiKeyOverride, abort.signal)) {
+                    send(event);
+                }
+            } catch (error) {
+                if (!abort.signal.aborted) {
+                    console.error('Error in generate-scripts stream:', error);
+                    send({ type: 'error', error: 'Failed to generate video scripts.' });
+                }
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed because the client went away
+                }
+            }
+        },
+        cancel() {
+            abort.abort();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    });
+}
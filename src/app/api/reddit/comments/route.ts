@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limiter';
+import { cacheGet, cacheSet, makeCacheKey, TTL } from '@/lib/cache';
+import { flattenComments, getPostDetails, isRemovedBody, searchReddit } from '@/lib/reddit';
+import { RedditApiError } from '@/lib/reddit-scheduler';
+import { parseSubreddits } from '@/lib/subreddits';
+import { dateRangeKey, isTimeRange, parseDateRange } from '@/lib/date-range';
+import { createCommentMatcher } from '@/lib/comment-search';
+import { CommentSearchResponse, CommentSearchResult, RedditComment, RedditPost } from '@/types';
+
+type RedditSort = 'top' | 'hot' | 'relevance';
+
+// One search plus one comment listing per thread ("load more" stubs aren't expanded), so a
+// single comment search can't monopolize the shared Reddit queue
+const DEFAULT_THREADS = 8;
+const MAX_THREADS = 10;
+const COMMENTS_PER_THREAD = 100;
+const MAX_RESULTS = 300;
+
+function toResult(comment: RedditComment, post: RedditPost): CommentSearchResult {
+    return {
+        id: comment.id,
+        author: comment.author,
+        body: comment.body,
+        score: comment.score,
+        depth: comment.depth,
+        created_utc: comment.created_utc,
+        permalink: comment.permalink,
+        post: {
+            id: post.id,
+            title: post.title,
+            subreddit: post.subreddit,
+            upvotes: post.upvotes,
+            comments: post.comments,
+            link: post.link,
+            permalink: post.permalink,
+        },
+    };
+}
+
+/**
+ * GET /api/reddit/comments - Searches posts, then scans the comment trees of the top
+ * `posts` threads and returns the individual comments that match the query, highest score first
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const keywords = searchParams.get('keywords')?.trim();
+        const sort = searchParams.get('sort') as RedditSort | null;
+        const time = searchParams.get('time') || 'all';
+        const postsParam = searchParams.get('posts');
+        const subreddits = parseSubreddits(searchParams.get('subreddits'));
+        const from = searchParams.get('from')?.trim() || undefined;
+        const to = searchParams.get('to')?.trim() || undefined;
+
+        if (!keywords || keywords.length === 0) {
+            return NextResponse.json(
+                { error: 'Keywords parameter is required' },
+                { status: 400 }
+            );
+        }
+
+        if (keywords.length > 200) {
+            return NextResponse.json(
+                { error: 'Keywords must be less than 200 characters' },
+                { status: 400 }
+            );
+        }
+
+        if (!isTimeRange(time)) {
+            return NextResponse.json(
+                { error: 'Invalid time parameter' },
+                { status: 400 }
+            );
+        }
+
+        const dateRange = parseDateRange({ from, to });
+        if (!dateRange.ok) {
+            return NextResponse.json(
+                { error: 'Invalid date range', details: dateRange.error },
+                { status: 400 }
+            );
+        }
+
+        const threadLimit = postsParam === null ? DEFAULT_THREADS : Number.parseInt(postsParam, 10);
+        if (!Number.isFinite(threadLimit) || threadLimit < 1 || threadLimit > MAX_THREADS) {
+            return NextResponse.json(
+                { error: `Posts must be between 1 and ${MAX_THREADS}` },
+                { status: 400 }
+            );
+        }
+
+        const matches = createCommentMatcher(keywords);
+        if (!matches) {
+            return NextResponse.json(
+                { error: 'Add a word or phrase to look for in comments' },
+                { status: 400 }
+            );
+        }
+
+        const sortType: RedditSort = sort === 'hot' || sort === 'relevance' ? sort : 'top';
+
+        const cacheKey = makeCacheKey('reddit-comments', keywords, sortType, time, dateRangeKey({ from, to }), String(threadLimit), subreddits.join('+') || 'all');
+        const cached = await cacheGet<CommentSearchResponse>(cacheKey);
+        if (cached) {
+            return NextResponse.json({ ...cached, cached: true } satisfies CommentSearchResponse);
+        }
+
+        const rateCheck = checkRateLimit(request, 'comment-search');
+        if (!rateCheck.allowed) {
+            return NextResponse.json(
+                {
+                    error: 'Rate limit exceeded. Comment search reads many threads; please wait before searching again.',
+                    retryAfter: rateCheck.retryAfter,
+                },
+                { status: 429, headers: rateLimitHeaders(rateCheck) }
+            );
+        }
+
+        // Over-fetch so threads without comments don't use up the budget
+        const candidates = await searchReddit(keywords, Math.min(threadLimit * 2, 100), sortType, time, subreddits, dateRange.bounds);
+        const threads = candidates.filter((post) => post.comments > 0 && post.permalink).slice(0, threadLimit);
+
+        // Fetch comment trees in parallel (the outbound scheduler paces the requests)
+        let redditError: RedditApiError | null = null;
+        let failedThreads = 0;
+        const trees = await Promise.all(
+            threads.map(async (post) => {
+                try {
+                    const { comments } = await getPostDetails(post.permalink!, {
+                        maxDepth: 5,
+                        maxComments: COMMENTS_PER_THREAD,
+                        expandMore: false,
+                    });
+                    return flattenComments(comments);
+                } catch (error) {
+                    console.warn(`Skipping post ${post.id}, comments could not be fetched:`, error);
+                    if (error instanceof RedditApiError) redditError = error;
+                    failedThreads++;
+                    return [];
+                }
+            })
+        );
+
+        // Nothing to show for it: report why instead of an empty result
+        if (threads.length > 0 && failedThreads === threads.length && redditError) {
+            throw redditError;
+        }
+
+        const results = trees
+            .flatMap((comments, i) =>
+                comments
+                    .filter((comment) => !isRemovedBody(comment.body) && matches(comment.body))
+                    .map((comment) => toResult(comment, threads[i]))
+            )
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_RESULTS);
+
+        const response: CommentSearchResponse = {
+            comments: results,
+            query: keywords,
+            postsSearched: threads.length - failedThreads,
+            commentsScanned: trees.reduce((sum, comments) => sum + comments.length, 0),
+            totalResults: results.length,
+            subreddits,
+            cached: false,
+        };
+        await cacheSet(cacheKey, response, TTL.COMMENT_SEARCH);
+
+        return NextResponse.json(response, { headers: rateLimitHeaders(rateCheck) });
+    } catch (error) {
+        console.error('Comment search API error:', error);
+
+        if (error instanceof RedditApiError) {
+            if (error.kind === 'rate_limited') {
+                return NextResponse.json(
+                    { error: 'Reddit is rate limiting us. Please try again in a few seconds.' },
+                    { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds ?? 5) } }
+                );
+            }
+            if (error.kind === 'timeout') {
+                return NextResponse.json(
+                    { error: 'Reddit is taking too long to respond. Please try again.' },
+                    { status: 504 }
+                );
+            }
+            return NextResponse.json(
+                { error: 'Reddit could not complete the comment search. Please try again later.', detail: error.message },
+                { status: error.httpStatus }
+            );
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to search comments. Please try again later.', detail: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limiter';
+import { cacheGet, cacheSet, makeCacheKey, TTL } from '@/lib/cache';
+import { getPostDetails } from '@/lib/reddit';
+import { RedditApiError } from '@/lib/reddit-scheduler';
+import { PostDetails } from '@/types';
+
+// Matches /r/{sub}/comments/{id}[/{slug}] with or without the reddit.com origin
+const PERMALINK_PATTERN = /^(https?:\/\/(www\.|old\.)?reddit\.com)?\/r\/[A-Za-z0-9_]+\/comments\/[a-z0-9]+(\/[^?#]*)?$/i;
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const permalink = searchParams.get('permalink')?.trim();
+
+        if (!permalink || !PERMALINK_PATTERN.test(permalink)) {
+            return NextResponse.json(
+                { error: 'A Reddit post permalink is required' },
+                { status: 400 }
+            );
+        }
+
+        const cacheKey = makeCacheKey('reddit-post', permalink.replace(/^https?:\/\/[^/]+/, ''));
+        const cached = await cacheGet<PostDetails>(cacheKey);
+        if (cached) {
+            return NextResponse.json(cached);
+        }
+
+        const rateCheck = checkRateLimit(request, 'reddit-post');
+
+        if (!rateCheck.allowed) {
+            return NextResponse.json(
+                {
+                    error: 'Rate limit exceeded. Please wait before opening another post.',
+                    retryAfter: rateCheck.retryAfter,
+                },
+                { status: 429, headers: rateLimitHeaders(rateCheck) }
+            );
+        }
+
+        const details = await getPostDetails(permalink, { maxDepth: 4, maxComments: 100 });
+
+        if (!details.post) {
+            return NextResponse.json(
+                { error: 'Post not found or Reddit did not respond.' },
+                { status: 404, headers: rateLimitHeaders(rateCheck) }
+            );
+        }
+
+        await cacheSet(cacheKey, details, TTL.POST_DETAILS);
+
+        return NextResponse.json(details, { headers: rateLimitHeaders(rateCheck) });
+    } catch (error) {
+        console.error('Post details API error:', error);
+        if (error instanceof RedditApiError) {
+            const message = error.kind === 'not_found'
+                ? 'Post not found on Reddit.'
+                : error.kind === 'rate_limited'
+                    ? 'Reddit is rate limiting us. Please try again in a few seconds.'
+                    : 'Reddit did not respond. Please try again.';
+            return NextResponse.json(
+                { error: message, detail: error.message },
+                {
+                    status: error.httpStatus,
+                    headers: error.retryAfterSeconds ? { 'Retry-After': String(error.retryAfterSeconds) } : undefined,
+                }
+            );
+        }
+        return NextResponse.json(
+            { error: 'Failed to fetch post details.', detail: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
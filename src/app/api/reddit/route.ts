@@ -1,8 +1,11 @@
 
-import { NextRequest, NextResponse } from 'next/server';
-import { rateLimiter } from '@/lib/rate-limiter';
-import { cacheGet, cacheSet, makeCacheKey, TTL } from '@/lib/cache';
-import { searchReddit } from '@/lib/reddit';
+import { NextRequest, NextResponse, after as runAfterResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limiter';
+import { cacheGetStamped, cacheSetStamped, makeCacheKey, revalidateInBackground, TTL } from '@/lib/cache';
+import { searchRedditPaginated, MAX_RESULT_BUDGET } from '@/lib/reddit';
+import { RedditApiError } from '@/lib/reddit-scheduler';
+import { parseSubreddits } from '@/lib/subreddits';
+import { dateRangeKey, isTimeRange, parseDateRange } from '@/lib/date-range';
 import { SearchResponse, TimeRange } from '@/types';
 
 type RedditSort = 'top' | 'hot' | 'relevance';
@@ -14,6 +17,11 @@ export async function GET(request: NextRequest) {
         const keywords = searchParams.get('keywords')?.trim();
         const sort = searchParams.get('sort') as RedditSort | null;
         const time = searchParams.get('time') || 'all';
+        const limitParam = searchParams.get('limit');
+        const after = searchParams.get('after')?.trim() || null;
+        const subreddits = parseSubreddits(searchParams.get('subreddits'));
+        const from = searchParams.get('from')?.trim() || undefined;
+        const to = searchParams.get('to')?.trim() || undefined;
 
         // Validate inputs
         if (!keywords || keywords.length === 0) {
@@ -30,10 +38,6 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        const validTimeRanges: TimeRange[] = ['hour', 'day', 'week', '15d', 'month', 'year', 'all'];
-        const isTimeRange = (value: string): value is TimeRange =>
-            validTimeRanges.includes(value as TimeRange);
-
         if (!isTimeRange(time)) {
             return NextResponse.json(
                 { error: 'Invalid time parameter' },
@@ -42,21 +46,72 @@ export async function GET(request: NextRequest) {
         }
         const timeRange: TimeRange = time;
 
+        const dateRange = parseDateRange({ from, to });
+        if (!dateRange.ok) {
+            return NextResponse.json(
+                { error: 'Invalid date range', details: dateRange.error },
+                { status: 400 }
+            );
+        }
+
+        const limit = limitParam === null ? 25 : Number.parseInt(limitParam, 10);
+        if (!Number.isFinite(limit) || limit < 1 || limit > MAX_RESULT_BUDGET) {
+            return NextResponse.json(
+                { error: `Limit must be between 1 and ${MAX_RESULT_BUDGET}` },
+                { status: 400 }
+            );
+        }
+
+        if (after !== null && !/^t3_[a-z0-9]+$/i.test(after)) {
+            return NextResponse.json(
+                { error: 'Invalid after cursor' },
+                { status: 400 }
+            );
+        }
+
         const sortType: RedditSort = sort === 'hot' || sort === 'relevance' ? sort : 'top';
 
-        // Check cache first
-        const cacheKey = makeCacheKey('reddit-search', keywords, sortType, time);
-        const cached = await cacheGet<SearchResponse>(cacheKey);
+        const fetchFresh = async (): Promise<SearchResponse> => {
+            const { posts, after: nextAfter } = await searchRedditPaginated(keywords, {
+                maxResults: limit,
+                sort: sortType,
+                time: timeRange,
+                after,
+                subreddits,
+                range: dateRange.bounds,
+            });
+
+            return {
+                posts,
+                cached: false,
+                cacheAge: 0,
+                query: keywords,
+                sort: sortType,
+                totalResults: posts.length,
+                subreddits,
+                after: nextAfter,
+            };
+        };
+
+        // Check cache first — serve stale entries immediately and refresh them after responding
+        const cacheKey = makeCacheKey('reddit-search', keywords, sortType, time, dateRangeKey({ from, to }), String(limit), after || 'first', subreddits.join('+') || 'all');
+        const cached = await cacheGetStamped<SearchResponse>(cacheKey);
 
         if (cached) {
-            return NextResponse.json(cached);
+            const isStale = cached.age >= TTL.SEARCH_RESULTS_SOFT;
+            if (isStale) {
+                runAfterResponse(() => revalidateInBackground(cacheKey, fetchFresh, TTL.SEARCH_RESULTS));
+            }
+            return NextResponse.json({
+                ...cached.value,
+                cached: true,
+                cacheAge: cached.age,
+                refreshing: isStale,
+            } satisfies SearchResponse);
         }
 
         // Check rate limit
-        const ip = request.headers.get('x-forwarded-for') ||
-            request.headers.get('x-real-ip') ||
-            'anonymous';
-        const rateCheck = rateLimiter.check(ip);
+        const rateCheck = checkRateLimit(request, 'search');
 
         if (!rateCheck.allowed) {
             return NextResponse.json(
@@ -64,48 +119,38 @@ export async function GET(request: NextRequest) {
                     error: 'Rate limit exceeded. Please wait before searching again.',
                     retryAfter: rateCheck.retryAfter,
                 },
-                {
-                    status: 429,
-                    headers: {
-                        'Retry-After': String(Math.ceil((rateCheck.retryAfter || 2000) / 1000)),
-                    },
-                }
+                { status: 429, headers: rateLimitHeaders(rateCheck) }
             );
         }
 
         // Fetch from Reddit
-        const posts = await searchReddit(keywords, 25, sortType, timeRange);
-
-        const response: SearchResponse = {
-            posts,
-            cached: false,
-            cacheAge: 0,
-            query: keywords,
-            sort: sortType,
-            totalResults: posts.length,
-        };
+        const response = await fetchFresh();
 
         // Cache the response
-        await cacheSet(cacheKey, response, TTL.SEARCH_RESULTS);
+        await cacheSetStamped(cacheKey, response, TTL.SEARCH_RESULTS);
 
-        return NextResponse.json(response);
+        return NextResponse.json(response, { headers: rateLimitHeaders(rateCheck) });
     } catch (error) {
         console.error('Reddit API error:', error);
 
         // Handle specific error types
-        if (error instanceof Error) {
-            if (error.message.includes('429') || error.message.includes('Too Many')) {
+        if (error instanceof RedditApiError) {
+            if (error.kind === 'rate_limited') {
                 return NextResponse.json(
                     { error: 'Reddit is rate limiting us. Please try again in a few seconds.' },
-                    { status: 429 }
+                    { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds ?? 5) } }
                 );
             }
-            if (error.message.includes('timeout') || error.message.includes('ECONNABORTED')) {
+            if (error.kind === 'timeout') {
                 return NextResponse.json(
                     { error: 'Reddit is taking too long to respond. Please try again.' },
                     { status: 504 }
                 );
             }
+            return NextResponse.json(
+                { error: 'Reddit could not complete the search. Please try again later.', detail: error.message },
+                { status: error.httpStatus }
+            );
         }
 
         return NextResponse.json(
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limiter';
+import { cacheGet, cacheSet, makeCacheKey, TTL } from '@/lib/cache';
+import { getSubredditInfo, getSubredditPosts } from '@/lib/reddit';
+import { RedditApiError } from '@/lib/reddit-scheduler';
+import { cleanSubredditName, isValidSubredditName } from '@/lib/subreddits';
+import { coveringWindow, isTimeRange, presetBounds, RedditTimeWindow } from '@/lib/date-range';
+import { SubredditProfileResponse, TimeRange } from '@/types';
+
+/**
+ * GET /api/subreddits/{name}?sort=hot|top&time=week - Community profile, rules and its hot/top posts
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+    try {
+        const name = cleanSubredditName(decodeURIComponent((await params).name));
+        const { searchParams } = new URL(request.url);
+        const sort = searchParams.get('sort') === 'top' ? 'top' : 'hot';
+        const time = searchParams.get('time') || 'week';
+
+        if (!isValidSubredditName(name)) {
+            return NextResponse.json({ error: 'Invalid subreddit name' }, { status: 400 });
+        }
+        if (!isTimeRange(time)) {
+            return NextResponse.json({ error: 'Invalid time parameter' }, { status: 400 });
+        }
+        const timeRange: TimeRange = time;
+
+        const cacheKey = makeCacheKey('subreddit-profile', name, sort, sort === 'top' ? timeRange : 'any');
+        const cached = await cacheGet<SubredditProfileResponse>(cacheKey);
+        if (cached) {
+            return NextResponse.json({ ...cached, cached: true } satisfies SubredditProfileResponse);
+        }
+
+        const rateCheck = checkRateLimit(request, 'subreddits');
+        if (!rateCheck.allowed) {
+            return NextResponse.json(
+                {
+                    error: 'Rate limit exceeded. Please wait before opening another community.',
+                    retryAfter: rateCheck.retryAfter,
+                },
+                { status: 429, headers: rateLimitHeaders(rateCheck) }
+            );
+        }
+
+        // "15d" has no Reddit window; list the covering month and trim by creation date
+        const bounds = presetBounds(timeRange);
+        const window = bounds ? coveringWindow(bounds) : timeRange as RedditTimeWindow;
+        const [subreddit, posts] = await Promise.all([
+            getSubredditInfo(name),
+            getSubredditPosts(name, sort, window, 50),
+        ]);
+
+        if (!subreddit) {
+            return NextResponse.json(
+                { error: `r/${name} does not exist.` },
+                { status: 404, headers: rateLimitHeaders(rateCheck) }
+            );
+        }
+
+        const response: SubredditProfileResponse = {
+            subreddit,
+            posts: bounds && sort === 'top'
+                ? posts.filter((post) => (post.created_utc ?? 0) >= (bounds.from ?? 0))
+                : posts,
+            sort,
+            time: timeRange,
+            cached: false,
+        };
+        await cacheSet(cacheKey, response, TTL.SUBREDDIT_PROFILE);
+
+        return NextResponse.json(response, { headers: rateLimitHeaders(rateCheck) });
+    } catch (error) {
+        console.error('Subreddit profile API error:', error);
+        if (error instanceof RedditApiError && error.status === 403) {
+            return NextResponse.json(
+                { error: 'This community is private or quarantined.', detail: error.message },
+                { status: 403 }
+            );
+        }
+        if (error instanceof RedditApiError) {
+            const message = error.kind === 'not_found'
+                ? 'This community is banned or does not exist.'
+                : error.kind === 'rate_limited'
+                    ? 'Reddit is rate limiting us. Please try again in a few seconds.'
+                    : 'Reddit did not respond. Please try again.';
+            return NextResponse.json(
+                { error: message, detail: error.message },
+                {
+                    status: error.httpStatus,
+                    headers: error.retryAfterSeconds ? { 'Retry-After': String(error.retryAfterSeconds) } : undefined,
+                }
+            );
+        }
+        return NextResponse.json(
+            { error: 'Failed to fetch community.', detail: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limiter';
+import { cacheGet, cacheSet, makeCacheKey, TTL } from '@/lib/cache';
+import { searchSubreddits } from '@/lib/reddit';
+import { RedditApiError } from '@/lib/reddit-scheduler';
+import { SubredditSearchResponse } from '@/types';
+
+/**
+ * GET /api/subreddits?q=espresso - Find communities by name and description
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const query = searchParams.get('q')?.trim().replace(/\s+/g, ' ');
+
+        if (!query || query.length < 2 || query.length > 100) {
+            return NextResponse.json(
+                { error: 'Search query must be between 2 and 100 characters' },
+                { status: 400 }
+            );
+        }
+
+        const cacheKey = makeCacheKey('subreddit-search', query);
+        const cached = await cacheGet<SubredditSearchResponse>(cacheKey);
+        if (cached) {
+            return NextResponse.json({ ...cached, cached: true } satisfies SubredditSearchResponse);
+        }
+
+        const rateCheck = checkRateLimit(request, 'subreddits');
+        if (!rateCheck.allowed) {
+            return NextResponse.json(
+                {
+                    error: 'Rate limit exceeded. Please wait before searching again.',
+                    retryAfter: rateCheck.retryAfter,
+                },
+                { status: 429, headers: rateLimitHeaders(rateCheck) }
+            );
+        }
+
+        const response: SubredditSearchResponse = {
+            subreddits: await searchSubreddits(query, 25),
+            query,
+            cached: false,
+        };
+        await cacheSet(cacheKey, response, TTL.SUBREDDIT_SEARCH);
+
+        return NextResponse.json(response, { headers: rateLimitHeaders(rateCheck) });
+    } catch (error) {
+        console.error('Subreddit search API error:', error);
+        if (error instanceof RedditApiError) {
+            return NextResponse.json(
+                {
+                    error: error.kind === 'rate_limited'
+                        ? 'Reddit is rate limiting us. Please try again in a few seconds.'
+                        : 'Reddit could not complete the community search. Please try again.',
+                    detail: error.message,
+                },
+                {
+                    status: error.httpStatus,
+                    headers: error.retryAfterSeconds ? { 'Retry-After': String(error.retryAfterSeconds) } : undefined,
+                }
+            );
+        }
+        return NextResponse.json(
+            { error: 'Failed to search communities.', detail: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limiter';
+import { cacheGet, cacheSet, makeCacheKey, TTL } from '@/lib/cache';
+import { getUserComments, getUserPosts, getUserProfile } from '@/lib/reddit';
+import { RedditApiError } from '@/lib/reddit-scheduler';
+import { authorSignals, cleanAuthorName, isDeletedAuthor, isValidAuthorName, summarizeSubredditActivity } from '@/lib/author-insights';
+import { AuthorProfileResponse } from '@/types';
+
+/**
+ * GET /api/users/{name} - Author karma and age, top posts, recent comments,
+ * most active subreddits and account-quality signals
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+    try {
+        const name = cleanAuthorName(decodeURIComponent((await params).name));
+
+        if (!isValidAuthorName(name) || isDeletedAuthor(name)) {
+            return NextResponse.json({ error: 'Invalid username' }, { status: 400 });
+        }
+
+        const cacheKey = makeCacheKey('user-profile', name);
+        const cached = await cacheGet<AuthorProfileResponse>(cacheKey);
+        if (cached) {
+            return NextResponse.json({ ...cached, cached: true } satisfies AuthorProfileResponse);
+        }
+
+        const rateCheck = checkRateLimit(request, 'users');
+        if (!rateCheck.allowed) {
+            return NextResponse.json(
+                {
+                    error: 'Rate limit exceeded. Please wait before opening another profile.',
+                    retryAfter: rateCheck.retryAfter,
+                },
+                { status: 429, headers: rateLimitHeaders(rateCheck) }
+            );
+        }
+
+        const author = await getUserProfile(name);
+        if (!author) {
+            return NextResponse.json(
+                { error: `u/${name} does not exist.` },
+                { status: 404, headers: rateLimitHeaders(rateCheck) }
+            );
+        }
+
+        // Suspended accounts have no public history to fetch
+        const [topPosts, recentComments] = author.isSuspended
+            ? [[], []]
+            : await Promise.all([getUserPosts(name, 'top', 'all', 100), getUserComments(name, 100)]);
+
+        const response: AuthorProfileResponse = {
+            author,
+            topPosts,
+            recentComments,
+            activeSubreddits: summarizeSubredditActivity(topPosts, recentComments),
+            signals: authorSignals(author, topPosts, recentComments),
+            cached: false,
+        };
+        await cacheSet(cacheKey, response, TTL.USER_PROFILE);
+
+        return NextResponse.json(response, { headers: rateLimitHeaders(rateCheck) });
+    } catch (error) {
+        console.error('User profile API error:', error);
+        if (error instanceof RedditApiError) {
+            const message = error.kind === 'not_found'
+                ? 'This account was deleted or does not exist.'
+                : error.kind === 'rate_limited'
+                    ? 'Reddit is rate limiting us. Please try again in a few seconds.'
+                    : 'Reddit did not respond. Please try again.';
+            return NextResponse.json(
+                { error: message, detail: error.message },
+                {
+                    status: error.httpStatus,
+                    headers: error.retryAfterSeconds ? { 'Retry-After': String(error.retryAfterSeconds) } : undefined,
+                }
+            );
+        }
+        return NextResponse.json(
+            { error: 'Failed to fetch author profile.', detail: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
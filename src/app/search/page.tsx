@@ -1,65 +1,100 @@
 /**
  * Main Search Page
- * Contains SearchForm, ResultsTable, and ExportButtons.
+ * Contains SearchForm, ResultsTable (or CommentResultsTable in comment mode), and ExportButtons.
+ * `?keywords=...&subreddits=a,b` (e.g. from a community page) runs a search on load.
  */
 
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { SearchForm } from '@/components/SearchForm';
 import { ResultsTable } from '@/components/ResultsTable';
+import { CommentResultsTable } from '@/components/CommentResultsTable';
 import { ExportButtons } from '@/components/ExportButtons';
 import { useRedditSearch } from '@/hooks/useRedditSearch';
 import { useContextSearch } from '@/hooks/useContextSearch';
+import { useCommentSearch } from '@/hooks/useCommentSearch';
 import { Card, CardContent } from '@/components/ui/card';
-import { AlertCircle, SearchX, RefreshCw } from 'lucide-react';
+import { AlertCircle, SearchX, RefreshCw, Loader2, ChevronDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import GenerateIdeasButton from '@/components/GenerateIdeasButton';
 import IdeasList from '@/components/IdeasList';
-import { ContentIdea } from '@/types';
+import { parseSubreddits } from '@/lib/subreddits';
+import { ContentIdea, DateRangeInput, SearchMode } from '@/types';
 
-export default function SearchPage() {
-    const [searchKeywords, setSearchKeywords] = useState('');
+function SearchContent() {
+    const searchParams = useSearchParams();
+    const [searchKeywords, setSearchKeywords] = useState(() => searchParams.get('keywords')?.trim().slice(0, 200) ?? '');
     const [searchSort, setSearchSort] = useState<'top' | 'hot' | 'relevance'>('top');
     const [searchTime, setSearchTime] = useState('all');
-    const [hasSearched, setHasSearched] = useState(false);
-    const [isContextMode, setIsContextMode] = useState(false);
+    const [searchSubreddits, setSearchSubreddits] = useState<string[]>(() => parseSubreddits(searchParams.get('subreddits')));
+    const [searchDateRange, setSearchDateRange] = useState<DateRangeInput>({});
+    const [hasSearched, setHasSearched] = useState(() => Boolean(searchParams.get('keywords')?.trim()));
+    const [searchMode, setSearchMode] = useState<SearchMode>('posts');
     const [generatedIdeas, setGeneratedIdeas] = useState<ContentIdea[]>([]);
 
+    const isContextMode = searchMode === 'context';
+    const isCommentMode = searchMode === 'comments';
+
     // Standard Search Hook
     const standardSearch = useRedditSearch(
-        !isContextMode ? searchKeywords : '',
+        searchMode === 'posts' ? searchKeywords : '',
         searchSort,
-        searchTime
+        searchTime,
+        searchSubreddits,
+        searchDateRange
     );
 
     // Context Search Hook
     const contextSearch = useContextSearch();
 
+    // Comment Search Hook
+    const commentSearch = useCommentSearch(
+        isCommentMode ? searchKeywords : '',
+        searchSort,
+        searchTime,
+        searchSubreddits,
+        searchDateRange
+    );
+
     // Determine active data source
-    const isLoading = isContextMode ? contextSearch.isLoading : standardSearch.isLoading;
-    const isError = isContextMode ? !!contextSearch.error : standardSearch.isError;
-    const error = isContextMode ? contextSearch.error : standardSearch.error;
-    const data = isContextMode ? contextSearch.data : standardSearch.data;
+    const isLoading = isContextMode ? contextSearch.isLoading : isCommentMode ? commentSearch.isLoading : standardSearch.isLoading;
+    const isError = isContextMode ? !!contextSearch.error : isCommentMode ? commentSearch.isError : standardSearch.isError;
+    const error = isContextMode ? contextSearch.error : isCommentMode ? commentSearch.error : standardSearch.error;
+    const data = isContextMode ? contextSearch.data : isCommentMode ? null : standardSearch.data;
+    const commentData = isCommentMode ? commentSearch.data : undefined;
+    const resultCount = isCommentMode ? commentData?.comments.length : data?.posts.length;
+    // While a context search streams in, show the posts scored relevant so far
+    const partialPosts = isContextMode && isLoading ? contextSearch.partialPosts : [];
+    const progress = isContextMode ? contextSearch.progress : null;
+    const redditCounts = progress ? Object.values(progress.redditCounts) : [];
+    const fetchedPosts = redditCounts.reduce<number>((sum, count) => sum + (count ?? 0), 0);
     const refetch = useCallback(() => {
         if (isContextMode) {
-            contextSearch.search(searchKeywords, searchSort, searchTime);
+            contextSearch.search(searchKeywords, searchSort, searchTime, searchSubreddits, undefined, searchDateRange);
+            return;
+        }
+        if (isCommentMode) {
+            void commentSearch.refetch();
             return;
         }
         void standardSearch.refetch();
-    }, [contextSearch, isContextMode, searchKeywords, searchSort, searchTime, standardSearch]);
+    }, [contextSearch, commentSearch, isContextMode, isCommentMode, searchKeywords, searchSort, searchTime, searchSubreddits, searchDateRange, standardSearch]);
 
-    const handleSearch = useCallback((keywords: string, sort: 'top' | 'hot' | 'relevance', time?: string, contextMode: boolean = false) => {
+    const handleSearch = useCallback((keywords: string, sort: 'top' | 'hot' | 'relevance', time?: string, mode: SearchMode = 'posts', subreddits: string[] = [], dateRange: DateRangeInput = {}) => {
         setSearchKeywords(keywords);
         setSearchSort(sort);
         if (time) setSearchTime(time);
+        setSearchSubreddits(subreddits);
+        setSearchDateRange(dateRange);
         setHasSearched(true);
-        setIsContextMode(contextMode);
+        setSearchMode(mode);
         setGeneratedIdeas([]);
 
         // If context mode, trigger it explicitly
-        if (contextMode) {
-            contextSearch.search(keywords, sort, time || 'all');
+        if (mode === 'context') {
+            contextSearch.search(keywords, sort, time || 'all', subreddits, undefined, dateRange);
         }
     }, [contextSearch]);
 
@@ -91,7 +126,10 @@ export default function SearchPage() {
                 {/* Context Mode Status Bar */}
                 {isContextMode && isLoading && (
                     <div className="absolute top-0 left-0 right-0 h-1 bg-purple-100 dark:bg-purple-900/30">
-                        <div className="h-full bg-purple-500 animate-progress-indeterminate" />
+                        <div
+                            className="h-full bg-purple-500 transition-all duration-500"
+                            style={{ width: `${progress?.percent ?? 5}%` }}
+                        />
                     </div>
                 )}
 
@@ -102,6 +140,8 @@ export default function SearchPage() {
                         initialKeywords={searchKeywords}
                         initialSort={searchSort}
                         initialTime={searchTime}
+                        initialSubreddits={searchSubreddits}
+                        initialDateRange={searchDateRange}
                     />
 
                     {/* Pipeline Status Indicator */}
@@ -114,7 +154,7 @@ export default function SearchPage() {
                             <div className="w-8 h-[1px] bg-border" />
                             <div className={`flex items-center gap-2 ${contextSearch.status === 'fetching' ? 'text-blue-600 font-medium' : 'text-muted-foreground/50'}`}>
                                 <div className={`w-2 h-2 rounded-full ${contextSearch.status === 'fetching' ? 'bg-blue-600 animate-ping' : 'bg-gray-300'}`} />
-                                Fetching (Client-Side)
+                                Fetching Reddit
                             </div>
                             <div className="w-8 h-[1px] bg-border" />
                             <div className={`flex items-center gap-2 ${contextSearch.status === 'filtering' ? 'text-green-600 font-medium' : 'text-muted-foreground/50'}`}>
@@ -123,6 +163,19 @@ export default function SearchPage() {
                             </div>
                         </div>
                     )}
+
+                    {/* Pipeline Progress Details */}
+                    {isContextMode && isLoading && progress && progress.queries.length > 0 && (
+                        <p className="mt-2 text-center text-xs text-muted-foreground">
+                            {progress.intent && progress.intent !== 'unknown' && `${progress.intent} intent • `}
+                            {progress.queries.length} queries
+                            {' • '}
+                            {redditCounts.filter((count) => count !== null).length}/{redditCounts.length} searched, {fetchedPosts} posts
+                            {progress.candidates !== undefined && ` • ${progress.candidates} unique`}
+                            {progress.semanticPass !== undefined && ` • ${progress.semanticPass} passed semantic filter`}
+                            {progress.totalBatches > 0 && ` • AI scored ${progress.scoredBatches}/${progress.totalBatches} batches`}
+                        </p>
+                    )}
                 </CardContent>
             </Card>
 
@@ -169,27 +222,66 @@ export default function SearchPage() {
             {generatedIdeas.length > 0 && <IdeasList ideas={generatedIdeas} />}
 
             {/* No Results State */}
-            {hasSearched && !isLoading && !isError && data && data.posts.length === 0 && (
+            {hasSearched && !isLoading && !isError && resultCount === 0 && (
                 <Card className="mt-6 border-border/40">
                     <CardContent className="p-8 text-center">
                         <SearchX className="h-12 w-12 text-muted-foreground/50 mx-auto mb-3" />
                         <h3 className="font-medium mb-1">No results found</h3>
                         <p className="text-sm text-muted-foreground max-w-md mx-auto">
-                            Try different keywords, check your spelling, or use more general search terms.
+                            {isCommentMode && commentData
+                                ? `No comments in the top ${commentData.postsSearched} threads mention these terms. Try fewer or broader terms, or a wider time range.`
+                                : 'Try different keywords, check your spelling, or use more general search terms.'}
                         </p>
                     </CardContent>
                 </Card>
             )}
 
             {/* Results Table */}
-            <ResultsTable
-                posts={data?.posts || []}
-                isLoading={isLoading}
-                totalResults={data?.totalResults || 0}
-                cached={data?.cached}
-                cacheAge={data?.cacheAge}
-                query={data?.query}
-            />
+            {isCommentMode ? (
+                <CommentResultsTable
+                    comments={commentData?.comments || []}
+                    isLoading={isLoading}
+                    query={commentData?.query}
+                    postsSearched={commentData?.postsSearched}
+                    commentsScanned={commentData?.commentsScanned}
+                    cached={commentData?.cached}
+                />
+            ) : (
+                <ResultsTable
+                    posts={partialPosts.length > 0 ? partialPosts : data?.posts || []}
+                    isLoading={isLoading && partialPosts.length === 0}
+                    totalResults={partialPosts.length > 0 ? partialPosts.length : data?.totalResults || 0}
+                    cached={data?.cached}
+                    cacheAge={data?.cacheAge}
+                    refreshing={data?.refreshing}
+                    query={data?.query}
+                />
+            )}
+
+            {/* Load More (standard search only) */}
+            {searchMode === 'posts' && !isLoading && standardSearch.hasNextPage && (
+                <div className="mt-4 flex justify-center">
+                    <Button
+                        onClick={() => void standardSearch.fetchNextPage()}
+                        disabled={standardSearch.isFetchingNextPage}
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                    >
+                        {standardSearch.isFetchingNextPage ? (
+                            <>
+                                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                Loading more...
+                            </>
+                        ) : (
+                            <>
+                                <ChevronDown className="h-3.5 w-3.5" />
+                                Load more results
+                            </>
+                        )}
+                    </Button>
+                </div>
+            )}
 
             {/* Empty state — before any search */}
             {!hasSearched && (
@@ -206,3 +298,18 @@ export default function SearchPage() {
         </div>
     );
 }
+
+export default function SearchPage() {
+    return (
+        <Suspense fallback={
+            <div className="container mx-auto px-4 py-8 max-w-6xl">
+                <div className="mb-8">
+                    <h1 className="text-2xl font-bold tracking-tight mb-1">Search Reddit</h1>
+                    <p className="text-sm text-muted-foreground">Loading...</p>
+                </div>
+            </div>
+        }>
+            <SearchContent />
+        </Suspense>
+    );
+}
@@ -1,6 +1,6 @@
 /**
  * Settings Page
- * Google account connection management.
+ * Google account connection management, AI prompts and cache administration.
  */
 
 'use client';
@@ -11,6 +11,7 @@ import { GoogleAuthButton } from '@/components/GoogleAuthButton';
 import PromptEditor from '@/components/PromptEditor';
 import ApiUsageBar from '@/components/ApiUsageBar';
 import ApiKeyManager from '@/components/ApiKeyManager';
+import CacheManager from '@/components/CacheManager';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { AlertCircle, CheckCircle2, Info, Shield, Clock, Zap } from 'lucide-react';
@@ -57,6 +58,9 @@ function SettingsContent() {
                 {/* API Usage Tracker */}
                 <ApiUsageBar />
 
+                {/* Cache Inspection */}
+                <CacheManager />
+
                 {/* AI Prompts Section */}
                 <PromptEditor />
 
@@ -119,7 +123,7 @@ function SettingsContent() {
                             </div>
                             <div className="flex items-center gap-2">
                                 <Clock className="h-3.5 w-3.5 text-muted-foreground" />
-                                <span className="text-xs text-muted-foreground">Rate limit: 1 req/2s</span>
+                                <span className="text-xs text-muted-foreground">Rate limit: bursts of 10, then 1 req/2s</span>
                             </div>
                             <div className="flex items-center gap-2">
                                 <Clock className="h-3.5 w-3.5 text-muted-foreground" />
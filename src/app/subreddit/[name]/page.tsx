@@ -0,0 +1,227 @@
+/**
+ * Subreddit Profile Page
+ * Community stats, rules and hot/top posts, with a shortcut to search within the community.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useSubredditProfile } from '@/hooks/useSubreddits';
+import { ResultsTable } from '@/components/ResultsTable';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { formatNumber } from '@/lib/format';
+import { cleanSubredditName } from '@/lib/subreddits';
+import { TimeRange } from '@/types';
+import { AlertCircle, ArrowLeft, Calendar, CalendarDays, ExternalLink, Flame, Hash, Search, TrendingUp, Users, Zap } from 'lucide-react';
+
+function getErrorMessage(error: unknown): string {
+    if (typeof error === 'object' && error && 'response' in error) {
+        const axiosError = error as { response?: { data?: { error?: string } } };
+        if (axiosError.response?.data?.error) return axiosError.response.data.error;
+    }
+    return 'Failed to load this community. Please try again.';
+}
+
+export default function SubredditPage() {
+    const params = useParams<{ name: string }>();
+    const name = cleanSubredditName(decodeURIComponent(params.name ?? ''));
+    const router = useRouter();
+    const [sort, setSort] = useState<'hot' | 'top'>('hot');
+    const [time, setTime] = useState<TimeRange>('week');
+    const [keywords, setKeywords] = useState('');
+    const { data, isLoading, isError, error } = useSubredditProfile(name, sort, time);
+    const subreddit = data?.subreddit;
+
+    const searchWithin = (e: React.FormEvent) => {
+        e.preventDefault();
+        const query = keywords.trim();
+        if (!query) return;
+        const search = new URLSearchParams({ keywords: query, subreddits: subreddit?.name ?? name });
+        router.push(`/search?${search.toString()}`);
+    };
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-6xl">
+            <Link href="/subreddit" className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground mb-4">
+                <ArrowLeft className="h-3.5 w-3.5" />
+                Find communities
+            </Link>
+
+            {/* Error State */}
+            {isError && (
+                <Card className="border-destructive/30 bg-destructive/5">
+                    <CardContent className="p-5 flex items-center gap-3">
+                        <AlertCircle className="h-5 w-5 text-destructive shrink-0" />
+                        <div>
+                            <h3 className="font-medium text-destructive mb-1">r/{name}</h3>
+                            <p className="text-sm text-muted-foreground">{getErrorMessage(error)}</p>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Profile Header */}
+            {isLoading && !subreddit && <Skeleton className="h-40 w-full" />}
+            {subreddit && (
+                <div className="grid gap-4 md:grid-cols-3">
+                    <Card className="md:col-span-2 border-border/60 bg-card/50 shadow-sm">
+                        <CardContent className="p-5 space-y-4">
+                            <div className="flex items-start gap-4">
+                                {subreddit.icon ? (
+                                    // eslint-disable-next-line @next/next/no-img-element
+                                    <img src={subreddit.icon} alt="" className="h-14 w-14 rounded-full shrink-0" />
+                                ) : (
+                                    <div className="h-14 w-14 rounded-full bg-orange-500/10 flex items-center justify-center shrink-0">
+                                        <Hash className="h-7 w-7 text-orange-500" />
+                                    </div>
+                                )}
+                                <div className="min-w-0 flex-1">
+                                    <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                                        r/{subreddit.name}
+                                        <a
+                                            href={subreddit.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="text-muted-foreground hover:text-primary transition-colors"
+                                            aria-label={`Open r/${subreddit.name} on Reddit`}
+                                        >
+                                            <ExternalLink className="h-4 w-4" />
+                                        </a>
+                                    </h1>
+                                    {subreddit.title !== subreddit.name && (
+                                        <p className="text-sm text-muted-foreground">{subreddit.title}</p>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="flex flex-wrap gap-4 text-sm">
+                                <span className="flex items-center gap-1.5">
+                                    <Users className="h-4 w-4 text-orange-500" />
+                                    <span className="font-medium">{formatNumber(subreddit.subscribers)}</span> members
+                                </span>
+                                {subreddit.activeUsers !== null && (
+                                    <span className="flex items-center gap-1.5">
+                                        <Zap className="h-4 w-4 text-green-500" />
+                                        <span className="font-medium">{formatNumber(subreddit.activeUsers)}</span> online
+                                    </span>
+                                )}
+                                <span className="flex items-center gap-1.5 text-muted-foreground">
+                                    <CalendarDays className="h-4 w-4" />
+                                    Created {new Date(subreddit.created).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}
+                                </span>
+                            </div>
+
+                            {subreddit.description && (
+                                <p className="text-sm text-muted-foreground whitespace-pre-line">{subreddit.description}</p>
+                            )}
+
+                            {/* Search Within */}
+                            <form onSubmit={searchWithin} className="flex gap-2">
+                                <Input
+                                    value={keywords}
+                                    onChange={(e) => setKeywords(e.target.value)}
+                                    placeholder={`Search within r/${subreddit.name}...`}
+                                    className="h-10 bg-background"
+                                    aria-label={`Search within r/${subreddit.name}`}
+                                    maxLength={200}
+                                />
+                                <Button type="submit" disabled={!keywords.trim()} className="h-10 gap-2">
+                                    <Search className="h-4 w-4" />
+                                    Search
+                                </Button>
+                            </form>
+                        </CardContent>
+                    </Card>
+
+                    {/* Rules */}
+                    <Card className="border-border/60 bg-card/50 shadow-sm">
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-base">Rules</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {subreddit.rules && subreddit.rules.length > 0 ? (
+                                <ol className="space-y-2 text-sm list-decimal list-inside">
+                                    {subreddit.rules.map((rule) => (
+                                        <li key={rule.shortName} title={rule.description || undefined}>
+                                            {rule.shortName}
+                                        </li>
+                                    ))}
+                                </ol>
+                            ) : (
+                                <p className="text-sm text-muted-foreground">No rules listed.</p>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+
+            {/* Posts */}
+            {!isError && (
+                <>
+                    <div className="mt-6 flex items-center gap-3">
+                        <div className="flex items-center gap-1 bg-muted/50 rounded-lg p-1">
+                            <button
+                                type="button"
+                                onClick={() => setSort('hot')}
+                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${sort === 'hot'
+                                    ? 'bg-background text-foreground shadow-sm'
+                                    : 'text-muted-foreground hover:text-foreground'
+                                    }`}
+                            >
+                                <Flame className="h-4 w-4" />
+                                Hot
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setSort('top')}
+                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${sort === 'top'
+                                    ? 'bg-background text-foreground shadow-sm'
+                                    : 'text-muted-foreground hover:text-foreground'
+                                    }`}
+                            >
+                                <TrendingUp className="h-4 w-4" />
+                                Top
+                            </button>
+                        </div>
+                        {sort === 'top' && (
+                            <Select value={time} onValueChange={(value) => setTime(value as TimeRange)}>
+                                <SelectTrigger className="w-[140px] h-9 bg-muted/50 border-0">
+                                    <Calendar className="mr-2 h-4 w-4 text-muted-foreground" />
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="day">Last 24 Hours</SelectItem>
+                                    <SelectItem value="week">Last Week</SelectItem>
+                                    <SelectItem value="15d">Last 15 Days</SelectItem>
+                                    <SelectItem value="month">Last Month</SelectItem>
+                                    <SelectItem value="year">Last Year</SelectItem>
+                                    <SelectItem value="all">All Time</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        )}
+                        {data?.cached && <Badge variant="outline" className="text-xs font-normal">cached</Badge>}
+                    </div>
+
+                    <ResultsTable
+                        posts={data?.posts || []}
+                        isLoading={isLoading}
+                        totalResults={data?.posts.length || 0}
+                    />
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,124 @@
+/**
+ * Community Discovery Page
+ * Finds subreddits by topic and links to their profile pages.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSubredditSearch } from '@/hooks/useSubreddits';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatNumber } from '@/lib/format';
+import { AlertCircle, Hash, Loader2, Search, SearchX, Users } from 'lucide-react';
+
+export default function SubredditDiscoveryPage() {
+    const [draft, setDraft] = useState('');
+    const [query, setQuery] = useState('');
+    const { data, isLoading, isFetching, isError } = useSubredditSearch(query);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        setQuery(draft.trim().replace(/\s+/g, ' '));
+    };
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+            {/* Page Header */}
+            <div className="mb-8">
+                <h1 className="text-2xl font-bold tracking-tight mb-1">Find Communities</h1>
+                <p className="text-sm text-muted-foreground">
+                    Search subreddits by topic, then open one to see its audience, rules and top posts.
+                </p>
+            </div>
+
+            <Card className="border-border/60 bg-card/50 shadow-sm">
+                <CardContent className="p-5">
+                    <form onSubmit={handleSubmit} className="flex gap-3">
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                placeholder="e.g. espresso, indie hacking, home lab"
+                                className="pl-9 h-10 bg-background"
+                                aria-label="Community topic"
+                                maxLength={100}
+                            />
+                        </div>
+                        <Button type="submit" disabled={draft.trim().length < 2 || isFetching} className="h-10 gap-2">
+                            {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                            Search
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+
+            {/* Error State */}
+            {isError && (
+                <Card className="mt-6 border-destructive/30 bg-destructive/5">
+                    <CardContent className="p-5 flex items-center gap-3">
+                        <AlertCircle className="h-5 w-5 text-destructive shrink-0" />
+                        <p className="text-sm text-muted-foreground">Community search failed. Please try again in a moment.</p>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Loading State */}
+            {isLoading && query && (
+                <div className="mt-6 space-y-3">
+                    {Array.from({ length: 4 }).map((_, i) => (
+                        <Skeleton key={i} className="h-20 w-full" />
+                    ))}
+                </div>
+            )}
+
+            {/* No Results State */}
+            {data && data.subreddits.length === 0 && (
+                <Card className="mt-6 border-border/40">
+                    <CardContent className="p-8 text-center">
+                        <SearchX className="h-10 w-10 text-muted-foreground/50 mx-auto mb-3" />
+                        <p className="text-sm text-muted-foreground">No communities found for &quot;{data.query}&quot;.</p>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Results */}
+            {data && data.subreddits.length > 0 && (
+                <div className="mt-6 space-y-3">
+                    {data.subreddits.map((sub) => (
+                        <Link key={sub.name} href={`/subreddit/${encodeURIComponent(sub.name)}`} className="block group">
+                            <Card className="border-border/60 transition-colors group-hover:border-primary/40">
+                                <CardContent className="p-4 flex items-start gap-3">
+                                    {sub.icon ? (
+                                        // eslint-disable-next-line @next/next/no-img-element
+                                        <img src={sub.icon} alt="" className="h-10 w-10 rounded-full shrink-0" />
+                                    ) : (
+                                        <div className="h-10 w-10 rounded-full bg-orange-500/10 flex items-center justify-center shrink-0">
+                                            <Hash className="h-5 w-5 text-orange-500" />
+                                        </div>
+                                    )}
+                                    <div className="min-w-0 flex-1">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className="font-medium group-hover:text-primary transition-colors">r/{sub.name}</span>
+                                            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                                <Users className="h-3 w-3" />
+                                                {formatNumber(sub.subscribers)} members
+                                            </span>
+                                        </div>
+                                        {sub.description && (
+                                            <p className="mt-1 text-sm text-muted-foreground line-clamp-2">{sub.description}</p>
+                                        )}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        </Link>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
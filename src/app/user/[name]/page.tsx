@@ -0,0 +1,222 @@
+/**
+ * Author Profile Page
+ * Karma, account age, most active subreddits, top posts and recent comments,
+ * with flags for patterns common to spam and bot accounts.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useAuthorProfile } from '@/hooks/useAuthorProfile';
+import { ResultsTable } from '@/components/ResultsTable';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatNumber } from '@/lib/format';
+import { cleanAuthorName } from '@/lib/author-insights';
+import { AlertCircle, AlertTriangle, CalendarDays, CheckCircle2, ExternalLink, Info, MessageSquare, ShieldCheck, ThumbsUp, User } from 'lucide-react';
+
+function getErrorMessage(error: unknown): string {
+    if (typeof error === 'object' && error && 'response' in error) {
+        const axiosError = error as { response?: { data?: { error?: string } } };
+        if (axiosError.response?.data?.error) return axiosError.response.data.error;
+    }
+    return 'Failed to load this profile. Please try again.';
+}
+
+function formatAccountAge(createdUtc: number): string {
+    const days = Math.floor((Date.now() / 1000 - createdUtc) / 86400);
+    if (days < 60) return `${days} day${days === 1 ? '' : 's'}`;
+    if (days < 730) return `${Math.floor(days / 30)} months`;
+    return `${Math.floor(days / 365)} years`;
+}
+
+export default function AuthorPage() {
+    const params = useParams<{ name: string }>();
+    const name = cleanAuthorName(decodeURIComponent(params.name ?? ''));
+    const { data, isLoading, isError, error } = useAuthorProfile(name);
+    const author = data?.author;
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-6xl">
+            {/* Error State */}
+            {isError && (
+                <Card className="border-destructive/30 bg-destructive/5">
+                    <CardContent className="p-5 flex items-center gap-3">
+                        <AlertCircle className="h-5 w-5 text-destructive shrink-0" />
+                        <div>
+                            <h3 className="font-medium text-destructive mb-1">u/{name}</h3>
+                            <p className="text-sm text-muted-foreground">{getErrorMessage(error)}</p>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {isLoading && <Skeleton className="h-40 w-full" />}
+
+            {data && author && (
+                <>
+                    <div className="grid gap-4 md:grid-cols-3">
+                        {/* Profile Header */}
+                        <Card className="md:col-span-2 border-border/60 bg-card/50 shadow-sm">
+                            <CardContent className="p-5 space-y-4">
+                                <div className="flex items-center gap-4">
+                                    {author.icon ? (
+                                        // eslint-disable-next-line @next/next/no-img-element
+                                        <img src={author.icon} alt="" className="h-14 w-14 rounded-full shrink-0" />
+                                    ) : (
+                                        <div className="h-14 w-14 rounded-full bg-orange-500/10 flex items-center justify-center shrink-0">
+                                            <User className="h-7 w-7 text-orange-500" />
+                                        </div>
+                                    )}
+                                    <div>
+                                        <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                                            u/{author.name}
+                                            <a
+                                                href={`https://www.reddit.com/user/${encodeURIComponent(author.name)}`}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="text-muted-foreground hover:text-primary transition-colors"
+                                                aria-label={`Open u/${author.name} on Reddit`}
+                                            >
+                                                <ExternalLink className="h-4 w-4" />
+                                            </a>
+                                        </h1>
+                                        <div className="flex gap-1.5 mt-1">
+                                            {author.verified && (
+                                                <Badge variant="secondary" className="text-xs gap-1">
+                                                    <ShieldCheck className="h-3 w-3" />
+                                                    Verified email
+                                                </Badge>
+                                            )}
+                                            {author.isMod && <Badge variant="secondary" className="text-xs">Moderator</Badge>}
+                                            {data.cached && <Badge variant="outline" className="text-xs font-normal">cached</Badge>}
+                                        </div>
+                                    </div>
+                                </div>
+
+                                {!author.isSuspended && (
+                                    <div className="flex flex-wrap gap-4 text-sm">
+                                        <span className="flex items-center gap-1.5">
+                                            <ThumbsUp className="h-4 w-4 text-orange-500" />
+                                            <span className="font-medium">{formatNumber(author.totalKarma)}</span> karma
+                                            <span className="text-muted-foreground">
+                                                ({formatNumber(author.linkKarma)} post • {formatNumber(author.commentKarma)} comment)
+                                            </span>
+                                        </span>
+                                        <span className="flex items-center gap-1.5 text-muted-foreground">
+                                            <CalendarDays className="h-4 w-4" />
+                                            {formatAccountAge(author.created_utc)} old
+                                        </span>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        {/* Account Signals */}
+                        <Card className="border-border/60 bg-card/50 shadow-sm">
+                            <CardHeader className="pb-2">
+                                <CardTitle className="text-base">Account signals</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                {data.signals.length === 0 ? (
+                                    <p className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+                                        <CheckCircle2 className="h-4 w-4 shrink-0" />
+                                        Nothing unusual in the sampled history
+                                    </p>
+                                ) : (
+                                    <ul className="space-y-2 text-sm">
+                                        {data.signals.map((signal) => (
+                                            <li key={signal.kind + signal.message} className="flex items-start gap-2">
+                                                {signal.severity === 'warning' ? (
+                                                    <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0 mt-0.5" />
+                                                ) : (
+                                                    <Info className="h-4 w-4 text-sky-500 shrink-0 mt-0.5" />
+                                                )}
+                                                {signal.message}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                <p className="mt-3 text-xs text-muted-foreground">
+                                    Based on up to 100 top posts and 100 recent comments.
+                                </p>
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    {/* Most Active Subreddits */}
+                    {data.activeSubreddits.length > 0 && (
+                        <Card className="mt-4 border-border/60 bg-card/50 shadow-sm">
+                            <CardHeader className="pb-2">
+                                <CardTitle className="text-base">Most active in</CardTitle>
+                            </CardHeader>
+                            <CardContent className="flex flex-wrap gap-2">
+                                {data.activeSubreddits.map((activity) => (
+                                    <Link
+                                        key={activity.subreddit}
+                                        href={`/subreddit/${encodeURIComponent(activity.subreddit)}`}
+                                        className="inline-flex items-center gap-2 rounded-md border border-border/60 px-3 py-1.5 text-sm hover:border-primary/40 hover:text-primary transition-colors"
+                                    >
+                                        r/{activity.subreddit}
+                                        <span className="text-xs text-muted-foreground">
+                                            {activity.posts} posts • {activity.comments} comments
+                                        </span>
+                                    </Link>
+                                ))}
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {/* Top Posts */}
+                    {data.topPosts.length > 0 && (
+                        <>
+                            <h2 className="mt-8 text-lg font-semibold">Top posts</h2>
+                            <ResultsTable posts={data.topPosts} isLoading={false} totalResults={data.topPosts.length} />
+                        </>
+                    )}
+
+                    {/* Recent Comments */}
+                    {data.recentComments.length > 0 && (
+                        <>
+                            <h2 className="mt-8 mb-3 text-lg font-semibold">Recent comments</h2>
+                            <div className="space-y-2">
+                                {data.recentComments.slice(0, 25).map((comment) => (
+                                    <Card key={comment.id} className="border-border/60">
+                                        <CardContent className="p-4 space-y-1.5">
+                                            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                                <Badge variant="outline" className="text-xs font-normal">r/{comment.subreddit}</Badge>
+                                                <span className="flex items-center gap-1">
+                                                    <ThumbsUp className="h-3 w-3 text-orange-500" />
+                                                    {formatNumber(comment.score)}
+                                                </span>
+                                                <span>{new Date(comment.created_utc * 1000).toLocaleDateString()}</span>
+                                                {comment.permalink && (
+                                                    <a
+                                                        href={comment.permalink}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="ml-auto hover:text-primary transition-colors"
+                                                        aria-label="Open comment on Reddit"
+                                                    >
+                                                        <ExternalLink className="h-3.5 w-3.5" />
+                                                    </a>
+                                                )}
+                                            </div>
+                                            <p className="flex items-center gap-1 text-xs text-muted-foreground line-clamp-1">
+                                                <MessageSquare className="h-3 w-3 shrink-0" />
+                                                on &ldquo;{comment.postTitle}&rdquo;
+                                            </p>
+                                            <p className="text-sm whitespace-pre-line line-clamp-4">{comment.body}</p>
+                                        </CardContent>
+                                    </Card>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
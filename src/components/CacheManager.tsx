@@ -0,0 +1,191 @@
+/**
+ * Cache inspection panel for the Settings page.
+ * Lists cached keys by namespace, shows hit/miss counters and allows invalidation.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import axios from 'axios';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useCacheAdmin } from '@/hooks/useCacheAdmin';
+import { Database, RefreshCw, Trash2, Loader2, AlertCircle } from 'lucide-react';
+
+const ADMIN_TOKEN_STORAGE_KEY = 'cache-admin-token';
+const NAMESPACES = ['', 'reddit-search', 'reddit-post', 'reddit-comments', 'subreddit-search', 'subreddit-profile', 'user-profile', 'filter', 'intent', 'embedding'];
+
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${bytes} B`;
+}
+
+function formatTtl(seconds: number): string {
+    if (seconds >= 3600) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+    if (seconds >= 60) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+    return `${seconds}s`;
+}
+
+export default function CacheManager() {
+    const [prefix, setPrefix] = useState('');
+    const [adminToken, setAdminToken] = useState<string>(() => {
+        if (typeof window === 'undefined') return '';
+        return localStorage.getItem(ADMIN_TOKEN_STORAGE_KEY) || '';
+    });
+    const { data, isLoading, isFetching, error, refetch, deleteEntries, isDeleting } = useCacheAdmin(prefix, adminToken);
+
+    const handleTokenChange = (value: string) => {
+        setAdminToken(value);
+        if (value) {
+            localStorage.setItem(ADMIN_TOKEN_STORAGE_KEY, value);
+        } else {
+            localStorage.removeItem(ADMIN_TOKEN_STORAGE_KEY);
+        }
+    };
+
+    const isUnauthorized = axios.isAxiosError(error) && error.response?.status === 401;
+    const namespaceStats = data ? Object.entries(data.namespaces) : [];
+
+    return (
+        <Card className="border-border/40 bg-card/50 backdrop-blur-sm">
+            <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <CardTitle className="text-sm flex items-center gap-2">
+                            <Database className="h-4 w-4 text-sky-500" />
+                            Cache
+                        </CardTitle>
+                        <CardDescription className="text-xs mt-1">
+                            Inspect and clear cached searches and AI results.
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {data && (
+                            <Badge variant="secondary" className="text-xs">
+                                {data.backend} • {data.entries} entries
+                            </Badge>
+                        )}
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-muted-foreground hover:text-foreground"
+                            onClick={() => void refetch()}
+                            disabled={isFetching}
+                            aria-label="Refresh cache list"
+                        >
+                            <RefreshCw className={`h-3.5 w-3.5 ${isFetching ? 'animate-spin' : ''}`} />
+                        </Button>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {/* Admin Token */}
+                <input
+                    type="password"
+                    value={adminToken}
+                    onChange={(e) => handleTokenChange(e.target.value)}
+                    placeholder="Admin token (ADMIN_TOKEN on the server)"
+                    className="w-full h-9 rounded-md border border-border/60 bg-background/50 px-3 text-xs font-mono placeholder:text-muted-foreground/40 focus:outline-none focus:ring-1 focus:ring-primary/50"
+                />
+
+                {/* Namespace Filter */}
+                <div className="flex flex-wrap items-center gap-1 bg-muted/50 rounded-lg p-1">
+                    {NAMESPACES.map((ns) => (
+                        <button
+                            key={ns || 'all'}
+                            type="button"
+                            onClick={() => setPrefix(ns)}
+                            className={`px-2.5 py-1 rounded-md text-xs font-medium transition-all ${prefix === ns
+                                ? 'bg-background text-foreground shadow-sm'
+                                : 'text-muted-foreground hover:text-foreground'
+                                }`}
+                        >
+                            {ns || 'All'}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Hit / Miss Counters */}
+                {namespaceStats.length > 0 && (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {namespaceStats.map(([ns, stats]) => {
+                            const lookups = stats.hits + stats.misses;
+                            const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+                            return (
+                                <div key={ns} className="rounded-lg border border-border/60 bg-muted/20 px-3 py-2">
+                                    <div className="text-xs font-medium truncate">{ns}</div>
+                                    <div className="text-[11px] text-muted-foreground">
+                                        {stats.hits} hits • {stats.misses} misses • {hitRate}%
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {isLoading && (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                )}
+
+                {error && (
+                    <div className="flex items-center gap-2 text-xs text-destructive">
+                        <AlertCircle className="h-3.5 w-3.5" />
+                        {isUnauthorized ? 'Enter a valid admin token to inspect the cache.' : 'Failed to load cache entries.'}
+                    </div>
+                )}
+
+                {data && (
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs text-muted-foreground">
+                                {data.keys.length}{data.truncated ? '+' : ''} keys{prefix ? ` under "${prefix}"` : ''}
+                            </span>
+                            {prefix && data.keys.length > 0 && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 gap-1.5 text-xs text-red-500 border-red-500/30 hover:bg-red-500/10"
+                                    disabled={isDeleting}
+                                    onClick={() => deleteEntries({ prefix })}
+                                >
+                                    <Trash2 className="h-3 w-3" />
+                                    Clear {prefix}
+                                </Button>
+                            )}
+                        </div>
+                        {data.keys.length === 0 ? (
+                            <p className="text-xs text-muted-foreground py-2">No cached entries.</p>
+                        ) : (
+                            <div className="max-h-64 overflow-y-auto rounded-lg border border-border/60 divide-y divide-border/40">
+                                {data.keys.map((entry) => (
+                                    <div key={entry.key} className="flex items-center gap-2 px-3 py-1.5">
+                                        <code className="flex-1 text-[11px] font-mono text-foreground/80 truncate" title={entry.key}>
+                                            {entry.key}
+                                        </code>
+                                        <span className="text-[11px] text-muted-foreground whitespace-nowrap">
+                                            {formatTtl(entry.ttlRemaining)} • {formatBytes(entry.size)}
+                                        </span>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-6 w-6 p-0 text-muted-foreground hover:text-red-400"
+                                            disabled={isDeleting}
+                                            onClick={() => deleteEntries({ key: entry.key })}
+                                            aria-label={`Delete ${entry.key}`}
+                                        >
+                                            <Trash2 className="h-3 w-3" />
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
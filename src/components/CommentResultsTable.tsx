@@ -0,0 +1,284 @@
+/**
+ * Sortable table of comment search results.
+ * Each row shows the matching comment with the thread it came from; clicking a row
+ * expands the full comment text.
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CommentSearchResult, SortDirection } from '@/types';
+import { formatDate, formatNumber } from '@/lib/format';
+import { isDeletedAuthor } from '@/lib/author-insights';
+import { ArrowUpDown, ArrowUp, ArrowDown, CornerDownRight, ExternalLink, ThumbsUp } from 'lucide-react';
+
+type CommentSortField = 'score' | 'subreddit' | 'author' | 'created';
+
+interface CommentSortConfig {
+    field: CommentSortField;
+    direction: SortDirection;
+}
+
+interface CommentResultsTableProps {
+    comments: CommentSearchResult[];
+    isLoading: boolean;
+    query?: string;
+    postsSearched?: number;
+    commentsScanned?: number;
+    cached?: boolean;
+}
+
+function SortIcon({ field, sortConfig }: { field: CommentSortField; sortConfig: CommentSortConfig }) {
+    if (sortConfig.field !== field) {
+        return <ArrowUpDown className="ml-1 h-3.5 w-3.5 text-muted-foreground/50" />;
+    }
+    return sortConfig.direction === 'asc' ? (
+        <ArrowUp className="ml-1 h-3.5 w-3.5 text-primary" />
+    ) : (
+        <ArrowDown className="ml-1 h-3.5 w-3.5 text-primary" />
+    );
+}
+
+export function CommentResultsTable({
+    comments,
+    isLoading,
+    query,
+    postsSearched,
+    commentsScanned,
+    cached,
+}: CommentResultsTableProps) {
+    const [sortConfig, setSortConfig] = useState<CommentSortConfig>({
+        field: 'score',
+        direction: 'desc',
+    });
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+    const toggleExpanded = (commentId: string) => {
+        setExpanded((prev) => {
+            const next = new Set(prev);
+            if (next.has(commentId)) next.delete(commentId);
+            else next.add(commentId);
+            return next;
+        });
+    };
+
+    const handleSort = (field: CommentSortField) => {
+        setSortConfig((prev) => ({
+            field,
+            direction: prev.field === field && prev.direction === 'desc' ? 'asc' : 'desc',
+        }));
+    };
+
+    const sortedComments = useMemo(() => {
+        const sorted = [...comments];
+        sorted.sort((a, b) => {
+            const dir = sortConfig.direction === 'asc' ? 1 : -1;
+            switch (sortConfig.field) {
+                case 'score':
+                    return (a.score - b.score) * dir;
+                case 'subreddit':
+                    return a.post.subreddit.localeCompare(b.post.subreddit) * dir;
+                case 'author':
+                    return a.author.localeCompare(b.author) * dir;
+                case 'created':
+                    return (a.created_utc - b.created_utc) * dir;
+                default:
+                    return 0;
+            }
+        });
+        return sorted;
+    }, [comments, sortConfig]);
+
+    // Loading skeleton
+    if (isLoading) {
+        return (
+            <div className="space-y-3 mt-6">
+                <Skeleton className="h-5 w-48" />
+                <div className="rounded-xl border border-border/60 overflow-hidden">
+                    {Array.from({ length: 6 }).map((_, i) => (
+                        <div key={i} className="flex items-start gap-4 p-3 border-t border-border/30 first:border-t-0">
+                            <Skeleton className="h-4 w-12" />
+                            <div className="flex-1 space-y-2">
+                                <Skeleton className="h-4 w-full" />
+                                <Skeleton className="h-4 w-2/3" />
+                            </div>
+                            <Skeleton className="h-4 w-16" />
+                            <Skeleton className="h-4 w-20" />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        );
+    }
+
+    if (comments.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-3 mt-6">
+            {/* Results header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <h2 className="text-sm font-medium text-foreground">
+                    Showing <span className="font-bold text-primary">{comments.length}</span> comments
+                    {query && (
+                        <>
+                            {' '}matching{' '}
+                            <span className="font-semibold text-foreground">&ldquo;{query}&rdquo;</span>
+                        </>
+                    )}
+                    {postsSearched !== undefined && commentsScanned !== undefined && (
+                        <span className="font-normal text-muted-foreground">
+                            {' '}from {formatNumber(commentsScanned)} comments in {postsSearched} threads
+                        </span>
+                    )}
+                </h2>
+                {cached && (
+                    <Badge variant="secondary" className="text-xs w-fit">
+                        📋 Cached result
+                    </Badge>
+                )}
+            </div>
+
+            {/* Table */}
+            <div className="rounded-xl border border-border/60 overflow-hidden bg-card shadow-sm">
+                <div className="overflow-x-auto">
+                    <Table>
+                        <TableHeader>
+                            <TableRow className="bg-muted/40 hover:bg-muted/40">
+                                <TableHead
+                                    className="cursor-pointer select-none hover:text-foreground transition-colors w-[90px]"
+                                    onClick={() => handleSort('score')}
+                                >
+                                    <div className="flex items-center">
+                                        Score
+                                        <SortIcon field="score" sortConfig={sortConfig} />
+                                    </div>
+                                </TableHead>
+                                <TableHead className="min-w-[350px]">Comment</TableHead>
+                                <TableHead
+                                    className="cursor-pointer select-none hover:text-foreground transition-colors"
+                                    onClick={() => handleSort('subreddit')}
+                                >
+                                    <div className="flex items-center">
+                                        Subreddit
+                                        <SortIcon field="subreddit" sortConfig={sortConfig} />
+                                    </div>
+                                </TableHead>
+                                <TableHead
+                                    className="cursor-pointer select-none hover:text-foreground transition-colors"
+                                    onClick={() => handleSort('author')}
+                                >
+                                    <div className="flex items-center">
+                                        Author
+                                        <SortIcon field="author" sortConfig={sortConfig} />
+                                    </div>
+                                </TableHead>
+                                <TableHead
+                                    className="cursor-pointer select-none hover:text-foreground transition-colors"
+                                    onClick={() => handleSort('created')}
+                                >
+                                    <div className="flex items-center">
+                                        Posted
+                                        <SortIcon field="created" sortConfig={sortConfig} />
+                                    </div>
+                                </TableHead>
+                                <TableHead className="w-10">Link</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {sortedComments.map((comment, index) => (
+                                <TableRow
+                                    key={comment.id}
+                                    onClick={() => toggleExpanded(comment.id)}
+                                    aria-expanded={expanded.has(comment.id)}
+                                    className={`group cursor-pointer align-top transition-colors ${index % 2 === 0 ? '' : 'bg-muted/10'}`}
+                                >
+                                    <TableCell>
+                                        <div className="flex items-center gap-1 text-sm">
+                                            <ThumbsUp className="h-3.5 w-3.5 text-orange-500" />
+                                            <span className="font-medium">{formatNumber(comment.score)}</span>
+                                        </div>
+                                    </TableCell>
+                                    <TableCell className="max-w-[520px] whitespace-normal">
+                                        <p className={`text-sm text-foreground whitespace-pre-line ${expanded.has(comment.id) ? '' : 'line-clamp-3'}`}>
+                                            {comment.body}
+                                        </p>
+                                        <a
+                                            href={comment.post.permalink || comment.post.link}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            onClick={(e) => e.stopPropagation()}
+                                            className="mt-1.5 flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors"
+                                            title={`${formatNumber(comment.post.upvotes)} upvotes • ${formatNumber(comment.post.comments)} comments`}
+                                        >
+                                            <CornerDownRight className="h-3 w-3 shrink-0" />
+                                            <span className="line-clamp-1">
+                                                {comment.depth > 0 ? 'Reply' : 'Comment'} on &ldquo;{comment.post.title}&rdquo;
+                                            </span>
+                                        </a>
+                                    </TableCell>
+                                    <TableCell>
+                                        <Badge variant="outline" className="text-xs font-normal whitespace-nowrap hover:border-primary/40 hover:text-primary" asChild>
+                                            <Link
+                                                href={`/subreddit/${encodeURIComponent(comment.post.subreddit)}`}
+                                                onClick={(e) => e.stopPropagation()}
+                                                title={`View r/${comment.post.subreddit}`}
+                                            >
+                                                {comment.post.subreddit}
+                                            </Link>
+                                        </Badge>
+                                    </TableCell>
+                                    <TableCell>
+                                        {isDeletedAuthor(comment.author) ? (
+                                            <span className="text-sm text-muted-foreground">[deleted]</span>
+                                        ) : (
+                                            <Link
+                                                href={`/user/${encodeURIComponent(comment.author)}`}
+                                                onClick={(e) => e.stopPropagation()}
+                                                className="text-sm text-muted-foreground hover:text-primary transition-colors whitespace-nowrap"
+                                                title={`Research u/${comment.author}`}
+                                            >
+                                                u/{comment.author}
+                                            </Link>
+                                        )}
+                                    </TableCell>
+                                    <TableCell>
+                                        <span className="text-sm text-muted-foreground whitespace-nowrap">
+                                            {formatDate(new Date(comment.created_utc * 1000).toISOString())}
+                                        </span>
+                                    </TableCell>
+                                    <TableCell>
+                                        {comment.permalink && (
+                                            <a
+                                                href={comment.permalink}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                onClick={(e) => e.stopPropagation()}
+                                                className="inline-flex items-center justify-center h-8 w-8 rounded-md hover:bg-muted transition-colors"
+                                                aria-label="Open comment on Reddit"
+                                            >
+                                                <ExternalLink className="h-4 w-4 text-muted-foreground group-hover:text-primary transition-colors" />
+                                            </a>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -3,11 +3,39 @@
 import { Button } from "@/components/ui/button";
 import { Sparkles } from "lucide-react";
 import { useState } from "react";
-import { RedditPost, ContentIdea } from "@/types";
+import { toast } from "sonner";
+import { RedditPost, ContentIdea, LlmOutputIssue } from "@/types";
 import { PROMPT_KEYS, getPrompt, DEFAULT_IDEAS_PROMPT, DEFAULT_HOOKS_PROMPT } from "@/lib/promptStore";
 import { useApiUsage } from "@/context/ApiUsageContext";
 import { getStoredApiKey } from "@/components/ApiKeyManager";
 
+const TASK_LABELS: Record<LlmOutputIssue["task"], string> = {
+    "query-expansion": "search queries",
+    scoring: "relevance scores",
+    ideas: "ideas",
+    hooks: "hooks",
+    scripts: "scripts",
+};
+
+/**
+ * Explains model output that failed validation, so a short or empty result isn't a silent mystery.
+ */
+function reportIssues(issues: LlmOutputIssue[], ideaCount: number) {
+    const failed = issues.filter((issue) => !issue.repaired);
+    if (failed.length === 0) return;
+
+    const labels = failed.map((issue) => TASK_LABELS[issue.task]).join(" and ");
+    const description = failed[0].errors.slice(0, 3).join("; ");
+
+    if (ideaCount === 0) {
+        toast.error(`The AI returned unusable ${labels}`, {
+            description: `${description}. Try again, or simplify your custom prompts.`,
+        });
+    } else {
+        toast.warning(`Some ${labels} were malformed and dropped`, { description });
+    }
+}
+
 interface GenerateIdeasButtonProps {
     posts: RedditPost[];
     onIdeasGenerated: (ideas: ContentIdea[]) => void;
@@ -55,6 +83,7 @@ export default function GenerateIdeasButton({
                 updateUsage(data.rateLimit);
             }
 
+            reportIssues(data.llmIssues ?? [], data.ideas?.length ?? 0);
             onIdeasGenerated(data.ideas);
         } catch (error) {
             console.error("Error generating ideas:", error);
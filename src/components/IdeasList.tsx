@@ -8,10 +8,10 @@ import {
     DialogHeader,
     DialogTitle,
 } from "@/components/ui/dialog";
-import { Copy, Sparkles, Check, Lightbulb, Target, Megaphone, Flame, Clapperboard } from "lucide-react";
+import { Copy, Sparkles, Check, Lightbulb, Target, Megaphone, Flame, Clapperboard, Square, RotateCcw, AlertCircle } from "lucide-react";
 import { PROMPT_KEYS, getPrompt, DEFAULT_SCRIPTS_PROMPT } from "@/lib/promptStore";
 import { useApiUsage } from "@/context/ApiUsageContext";
-import { getStoredApiKey } from "@/components/ApiKeyManager";
+import { useScriptStream } from "@/hooks/useScriptStream";
 import { useState } from "react";
 import { ContentIdea, VideoScripts } from "@/types";
 import { Badge } from "@/components/ui/badge";
@@ -38,7 +38,10 @@ export default function IdeasList({ ideas }: IdeasListProps) {
     const [scripts, setScripts] = useState<Record<number, VideoScripts>>({});
     const [dialogOpen, setDialogOpen] = useState(false);
     const [activeScriptIndex, setActiveScriptIndex] = useState<number | null>(null);
+    const [incompleteScripts, setIncompleteScripts] = useState<Record<number, "stopped" | "malformed" | null>>({});
+    const [scriptError, setScriptError] = useState<{ index: number; message: string } | null>(null);
     const { updateUsage } = useApiUsage();
+    const scriptStream = useScriptStream();
 
     const copyToClipboard = async (idea: ContentIdea, index: number) => {
         const hooksText = idea.hooks && idea.hooks.length > 0
@@ -66,43 +69,34 @@ export default function IdeasList({ ideas }: IdeasListProps) {
 
     const handleGenerateScripts = async (idea: ContentIdea, index: number) => {
         setScriptLoading(index);
+        setScriptError(null);
+        setActiveScriptIndex(index);
+        setDialogOpen(true);
         try {
-            const userApiKey = getStoredApiKey();
-            const headers: Record<string, string> = {
-                "Content-Type": "application/json",
-            };
-            if (userApiKey) {
-                headers["x-groq-api-key"] = userApiKey;
-            }
-
-            const response = await fetch("/api/generate-scripts", {
-                method: "POST",
-                headers,
-                body: JSON.stringify({
-                    hook: idea.hook,
-                    concept: idea.concept,
-                    scriptsPrompt: getPrompt(PROMPT_KEYS.SCRIPTS, DEFAULT_SCRIPTS_PROMPT),
-                }),
+            const result = await scriptStream.generate({
+                hook: idea.hook,
+                concept: idea.concept,
+                scriptsPrompt: getPrompt(PROMPT_KEYS.SCRIPTS, DEFAULT_SCRIPTS_PROMPT),
             });
-
-            const data = await response.json();
-
-            if (!response.ok) {
-                throw new Error(data.error || "Failed to generate scripts");
-            }
             // Update API usage bar
-            if (data.rateLimit) {
-                updateUsage(data.rateLimit);
+            if (result.rateLimit) {
+                updateUsage(result.rateLimit);
             }
 
-            setScripts(prev => ({ ...prev, [index]: { variation1: data.variation1, variation2: data.variation2 } }));
-            setActiveScriptIndex(index);
-            setDialogOpen(true);
+            // Keep whatever was generated, even if the user stopped early
+            if (result.scripts.variation1 || result.scripts.variation2) {
+                setScripts(prev => ({ ...prev, [index]: result.scripts }));
+                const incomplete = !result.complete ? "stopped" : result.issue && !result.issue.repaired ? "malformed" : null;
+                setIncompleteScripts(prev => ({ ...prev, [index]: incomplete }));
+            }
         } catch (error) {
             console.error("Error generating scripts:", error);
-            alert("Failed to generate scripts. Please try again.");
+            setScriptError({
+                index,
+                message: error instanceof Error ? error.message : "Failed to generate scripts. Please try again.",
+            });
         } finally {
-            setScriptLoading(null);
+            setScriptLoading(current => (current === index ? null : current));
         }
     };
 
@@ -113,8 +107,13 @@ export default function IdeasList({ ideas }: IdeasListProps) {
 
     if (!ideas || ideas.length === 0) return null;
 
-    const activeScripts = activeScriptIndex !== null ? scripts[activeScriptIndex] : null;
+    const isStreamingActive = scriptLoading !== null && scriptLoading === activeScriptIndex;
+    const activeScripts = isStreamingActive
+        ? scriptStream.scripts
+        : activeScriptIndex !== null ? scripts[activeScriptIndex] : null;
     const activeIdea = activeScriptIndex !== null ? ideas[activeScriptIndex] : null;
+    const activeError = scriptError && scriptError.index === activeScriptIndex ? scriptError.message : null;
+    const streamCaret = isStreamingActive ? <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-sky-400 animate-pulse" /> : null;
 
     return (
         <div className="mt-8 space-y-6">
@@ -199,7 +198,7 @@ export default function IdeasList({ ideas }: IdeasListProps) {
 
                             {/* Generate / View Scripts Button */}
                             <div className="pt-3 mt-auto">
-                                {scripts[index] ? (
+                                {scripts[index] && scriptLoading !== index ? (
                                     <Button
                                         onClick={() => openScriptsDialog(index)}
                                         variant="outline"
@@ -251,8 +250,47 @@ export default function IdeasList({ ideas }: IdeasListProps) {
                                 &ldquo;{activeIdea.hook}&rdquo;
                             </p>
                         )}
+                        {activeIdea && activeScriptIndex !== null && (
+                            <div className="flex items-center gap-2 pt-2">
+                                {isStreamingActive ? (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7 gap-1.5 text-xs text-red-500 border-red-500/30 hover:bg-red-500/10"
+                                        onClick={scriptStream.cancel}
+                                    >
+                                        <Square className="h-3 w-3" /> Stop
+                                    </Button>
+                                ) : (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7 gap-1.5 text-xs border-sky-500/30 text-sky-500 hover:bg-sky-500/10"
+                                        onClick={() => handleGenerateScripts(activeIdea, activeScriptIndex)}
+                                    >
+                                        <RotateCcw className="h-3 w-3" /> Regenerate
+                                    </Button>
+                                )}
+                                {isStreamingActive && (
+                                    <span className="text-xs text-muted-foreground">Writing scripts…</span>
+                                )}
+                                {!isStreamingActive && incompleteScripts[activeScriptIndex] === "stopped" && (
+                                    <span className="text-xs text-amber-500">Stopped early — scripts may be incomplete</span>
+                                )}
+                                {!isStreamingActive && incompleteScripts[activeScriptIndex] === "malformed" && (
+                                    <span className="text-xs text-amber-500">The AI&apos;s output was malformed — scripts may be incomplete</span>
+                                )}
+                            </div>
+                        )}
                     </DialogHeader>
 
+                    {activeError && (
+                        <div className="flex items-center gap-2 text-sm text-destructive">
+                            <AlertCircle className="h-4 w-4" />
+                            {activeError}
+                        </div>
+                    )}
+
                     {activeScripts && (
                         <div className="space-y-6 mt-2">
                             {/* Variation 1 */}
@@ -266,6 +304,7 @@ export default function IdeasList({ ideas }: IdeasListProps) {
                                         size="sm"
                                         className="h-7 gap-1.5 text-xs text-muted-foreground hover:text-foreground"
                                         onClick={() => copyScriptVariation(activeScripts.variation1, "v1")}
+                                        disabled={!activeScripts.variation1}
                                     >
                                         {copiedScript === "v1" ? (
                                             <><Check className="h-3 w-3 text-green-500" /> Copied</>
@@ -277,6 +316,7 @@ export default function IdeasList({ ideas }: IdeasListProps) {
                                 <div className="p-4 rounded-xl bg-sky-500/5 border border-sky-500/15">
                                     <pre className="text-sm text-foreground/85 whitespace-pre-wrap font-sans leading-relaxed">
                                         {cleanScriptText(activeScripts.variation1)}
+                                        {!activeScripts.variation2 && streamCaret}
                                     </pre>
                                 </div>
                             </div>
@@ -294,6 +334,7 @@ export default function IdeasList({ ideas }: IdeasListProps) {
                                         size="sm"
                                         className="h-7 gap-1.5 text-xs text-muted-foreground hover:text-foreground"
                                         onClick={() => copyScriptVariation(activeScripts.variation2, "v2")}
+                                        disabled={!activeScripts.variation2}
                                     >
                                         {copiedScript === "v2" ? (
                                             <><Check className="h-3 w-3 text-green-500" /> Copied</>
@@ -305,6 +346,7 @@ export default function IdeasList({ ideas }: IdeasListProps) {
                                 <div className="p-4 rounded-xl bg-sky-500/5 border border-sky-500/15">
                                     <pre className="text-sm text-foreground/85 whitespace-pre-wrap font-sans leading-relaxed">
                                         {cleanScriptText(activeScripts.variation2)}
+                                        {activeScripts.variation2 && streamCaret}
                                     </pre>
                                 </div>
                             </div>
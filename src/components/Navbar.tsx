@@ -1,15 +1,16 @@
 /**
- * Navigation bar component with links to Search, Settings.
+ * Navigation bar component with links to Search, Communities, Settings.
  */
 
 'use client';
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Search, Settings, Zap } from 'lucide-react';
+import { Hash, Search, Settings, Zap } from 'lucide-react';
 
 const navItems = [
     { label: 'Search', href: '/search', icon: Search },
+    { label: 'Communities', href: '/subreddit', icon: Hash },
     { label: 'Settings', href: '/settings', icon: Settings },
 ];
 
@@ -32,7 +33,7 @@ export function Navbar() {
                 {/* Nav Links */}
                 <nav className="flex items-center gap-1">
                     {navItems.map(({ label, href, icon: Icon }) => {
-                        const isActive = pathname === href;
+                        const isActive = pathname === href || pathname.startsWith(`${href}/`);
                         return (
                             <Link
                                 key={href}
@@ -0,0 +1,197 @@
+/**
+ * Side drawer showing a post's body, score breakdown and comment thread.
+ * Lets researchers triage results without leaving the table.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { usePostDetails } from '@/hooks/usePostDetails';
+import { formatDate, formatNumber } from '@/lib/format';
+import { RedditComment, RedditPost } from '@/types';
+import { ExternalLink, MessageSquare, ThumbsUp, Percent, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react';
+
+interface PostDetailDrawerProps {
+    post: RedditPost | null;
+    onClose: () => void;
+}
+
+function ScoreItem({ label, value }: { label: string; value: string }) {
+    return (
+        <div className="rounded-lg border border-border/60 bg-muted/20 p-2 text-center">
+            <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</div>
+            <div className="text-sm font-semibold">{value}</div>
+        </div>
+    );
+}
+
+function CommentNode({ comment }: { comment: RedditComment }) {
+    const [collapsed, setCollapsed] = useState(false);
+    const hasReplies = comment.replies.length > 0;
+
+    return (
+        <div className={comment.depth > 0 ? 'ml-3 pl-3 border-l border-border/50' : ''}>
+            <div className="py-2">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {hasReplies ? (
+                        <button
+                            type="button"
+                            onClick={() => setCollapsed(!collapsed)}
+                            className="hover:text-foreground transition-colors"
+                            aria-label={collapsed ? 'Expand replies' : 'Collapse replies'}
+                        >
+                            {collapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                        </button>
+                    ) : (
+                        <span className="w-3" />
+                    )}
+                    <span className="font-medium text-foreground/80">u/{comment.author}</span>
+                    <span className="flex items-center gap-0.5">
+                        <ThumbsUp className="h-3 w-3 text-orange-500" />
+                        {formatNumber(comment.score)}
+                    </span>
+                    {comment.created_utc > 0 && (
+                        <span>{formatDate(new Date(comment.created_utc * 1000).toISOString())}</span>
+                    )}
+                    {collapsed && <span>({comment.replies.length} replies hidden)</span>}
+                </div>
+                <p className="mt-1 text-sm text-foreground/85 whitespace-pre-wrap break-words leading-relaxed">
+                    {comment.body}
+                </p>
+            </div>
+            {!collapsed && comment.replies.map((reply) => (
+                <CommentNode key={reply.id} comment={reply} />
+            ))}
+        </div>
+    );
+}
+
+export function PostDetailDrawer({ post, onClose }: PostDetailDrawerProps) {
+    const permalink = post?.permalink || (post?.link.includes('reddit.com/r/') ? post.link : null);
+    const { data, isLoading, isError } = usePostDetails(permalink);
+
+    const selftext = data?.post?.selftext || post?.selftext || '';
+    const upvoteRatio = data?.post?.upvote_ratio ?? post?.upvote_ratio;
+
+    return (
+        <Sheet open={post !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+            <SheetContent side="right" className="w-full sm:max-w-xl overflow-y-auto">
+                {post && (
+                    <>
+                        <SheetHeader className="pr-10">
+                            <div className="flex items-center gap-2">
+                                <Badge variant="outline" className="text-xs font-normal">
+                                    r/{post.subreddit}
+                                </Badge>
+                                <span className="text-xs text-muted-foreground">
+                                    u/{post.author} • {formatDate(post.created)}
+                                </span>
+                            </div>
+                            <SheetTitle className="text-lg leading-snug">{post.title}</SheetTitle>
+                            <SheetDescription asChild>
+                                <div className="flex items-center gap-4 text-sm">
+                                    <span className="flex items-center gap-1">
+                                        <ThumbsUp className="h-3.5 w-3.5 text-orange-500" />
+                                        {formatNumber(post.upvotes)}
+                                    </span>
+                                    <span className="flex items-center gap-1">
+                                        <MessageSquare className="h-3.5 w-3.5 text-blue-500" />
+                                        {formatNumber(post.comments)}
+                                    </span>
+                                    {upvoteRatio !== undefined && upvoteRatio > 0 && (
+                                        <span className="flex items-center gap-1">
+                                            <Percent className="h-3.5 w-3.5 text-green-500" />
+                                            {Math.round(upvoteRatio * 100)}% upvoted
+                                        </span>
+                                    )}
+                                    <a
+                                        href={post.permalink || post.link}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="ml-auto flex items-center gap-1 hover:text-primary transition-colors"
+                                    >
+                                        Open on Reddit
+                                        <ExternalLink className="h-3.5 w-3.5" />
+                                    </a>
+                                </div>
+                            </SheetDescription>
+                        </SheetHeader>
+
+                        <div className="px-4 pb-6 space-y-5">
+                            {/* Score Breakdown */}
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                <ScoreItem label="Relevance" value={post.relevanceScore !== undefined ? `${post.relevanceScore}/10` : '—'} />
+                                <ScoreItem label="Semantic" value={post.semanticScore !== undefined ? post.semanticScore.toFixed(2) : '—'} />
+                                <ScoreItem label="Heuristic" value={post.hScore !== undefined ? formatNumber(Math.round(post.hScore)) : '—'} />
+                                <ScoreItem label="Freq. Bonus" value={post.frequencyBonus !== undefined ? `+${post.frequencyBonus}` : '—'} />
+                            </div>
+
+                            {post.thumbnail && (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img
+                                    src={post.thumbnail}
+                                    alt=""
+                                    className="rounded-lg border border-border/60 max-h-48 object-cover"
+                                />
+                            )}
+
+                            {selftext && (
+                                <div className="rounded-xl bg-muted/20 border border-border/40 p-4">
+                                    <p className="text-sm text-foreground/85 whitespace-pre-wrap break-words leading-relaxed">
+                                        {selftext}
+                                    </p>
+                                </div>
+                            )}
+
+                            {/* Comment Thread */}
+                            <div>
+                                <h3 className="text-sm font-semibold mb-2 flex items-center gap-2">
+                                    <MessageSquare className="h-4 w-4 text-blue-500" />
+                                    Comments
+                                </h3>
+                                {!permalink && (
+                                    <p className="text-sm text-muted-foreground">Comments are unavailable for this post.</p>
+                                )}
+                                {isLoading && (
+                                    <div className="space-y-3">
+                                        {Array.from({ length: 4 }).map((_, i) => (
+                                            <div key={i} className="space-y-1.5">
+                                                <Skeleton className="h-3 w-32" />
+                                                <Skeleton className="h-4 w-full" />
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                {isError && (
+                                    <div className="flex items-center gap-2 text-sm text-destructive">
+                                        <AlertCircle className="h-4 w-4" />
+                                        Failed to load comments. Please try again.
+                                    </div>
+                                )}
+                                {data && data.comments.length === 0 && (
+                                    <p className="text-sm text-muted-foreground">No comments yet.</p>
+                                )}
+                                {data && data.comments.length > 0 && (
+                                    <div className="divide-y divide-border/30">
+                                        {data.comments.map((comment) => (
+                                            <CommentNode key={comment.id} comment={comment} />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </>
+                )}
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -0,0 +1,214 @@
+/**
+ * Visual editor for Reddit search syntax: one row per clause (field, value, exact, exclude)
+ * joined by "match all" / "match any". Edits are written back to the raw query string,
+ * and raw edits are parsed back into rows when the builder can represent them.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Ban, Plus, Quote, RotateCcw, X } from 'lucide-react';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { createClause, emptyQuery, parseRedditQuery, QUERY_FIELDS, serializeQuery, validateQuery } from '@/lib/reddit-query';
+import { QueryClause, QueryField, StructuredQuery } from '@/types';
+
+interface QueryBuilderProps {
+    value: string;
+    onChange: (query: string) => void;
+    disabled?: boolean;
+}
+
+const PLACEHOLDERS: Record<QueryField, string> = {
+    text: 'e.g. espresso grinder',
+    title: 'e.g. budget',
+    selftext: 'e.g. burr',
+    author: 'username',
+    subreddit: 'e.g. espresso',
+    flair: 'e.g. Discussion',
+    site: 'e.g. youtube.com',
+    url: 'e.g. github.com/owner/repo',
+    self: '',
+};
+
+function readQuery(raw: string): { query: StructuredQuery; error: string | null } {
+    const parsed = parseRedditQuery(raw);
+    return parsed.ok ? { query: parsed.query, error: null } : { query: emptyQuery(), error: parsed.error };
+}
+
+export function QueryBuilder({ value, onChange, disabled }: QueryBuilderProps) {
+    const [{ query, error: parseError }, setParsed] = useState(() => readQuery(value));
+    // The raw string the rows currently reflect; anything else was typed into the text input
+    const [syncedValue, setSyncedValue] = useState(value);
+
+    if (value !== syncedValue) {
+        setSyncedValue(value);
+        const next = readQuery(value);
+        // Keep the rows when the raw text can't be represented, so nothing is lost
+        setParsed(next.error ? { query, error: next.error } : next);
+    }
+
+    const update = useCallback(
+        (next: StructuredQuery) => {
+            const raw = serializeQuery(next);
+            setParsed({ query: next, error: null });
+            setSyncedValue(raw);
+            onChange(raw);
+        },
+        [onChange]
+    );
+
+    const updateClause = (id: string, changes: Partial<QueryClause>) =>
+        update({
+            ...query,
+            clauses: query.clauses.map((clause) => (clause.id === id ? { ...clause, ...changes } : clause)),
+        });
+
+    const removeClause = (id: string) => {
+        const clauses = query.clauses.filter((clause) => clause.id !== id);
+        update({ ...query, clauses: clauses.length > 0 ? clauses : [createClause()] });
+    };
+
+    const changeField = (clause: QueryClause, field: QueryField) =>
+        updateClause(clause.id, {
+            field,
+            value: field === 'self' ? 'yes' : clause.field === 'self' ? '' : clause.value,
+            exact: field === 'text' ? clause.exact : undefined,
+        });
+
+    const serialized = serializeQuery(query);
+    const issues = parseError || !serialized ? [] : validateQuery(query);
+
+    return (
+        <div className={`rounded-md border border-border/60 bg-muted/20 p-3 space-y-3 text-sm ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">Match</span>
+                    <Select
+                        value={query.operator}
+                        onValueChange={(operator) => update({ ...query, operator: operator as StructuredQuery['operator'] })}
+                    >
+                        <SelectTrigger size="sm" className="w-[130px] bg-background" aria-label="Combine clauses with">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="AND">all clauses</SelectItem>
+                            <SelectItem value="OR">any clause</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1.5"
+                    onClick={() => update({ ...query, clauses: [...query.clauses, createClause()] })}
+                >
+                    <Plus className="h-3.5 w-3.5" />
+                    Add clause
+                </Button>
+            </div>
+
+            {parseError && (
+                <div className="flex items-center justify-between gap-2 rounded-md bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+                    <span>The builder can&apos;t show this query ({parseError}). Edit it as text, or start over here.</span>
+                    <Button type="button" variant="outline" size="xs" className="gap-1" onClick={() => update(emptyQuery())}>
+                        <RotateCcw className="h-3 w-3" />
+                        Start over
+                    </Button>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {query.clauses.map((clause) => (
+                    <div key={clause.id} className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+                        <Select value={clause.field} onValueChange={(field) => changeField(clause, field as QueryField)}>
+                            <SelectTrigger size="sm" className="w-[130px] bg-background" aria-label="Field">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {QUERY_FIELDS.map(({ field, label }) => (
+                                    <SelectItem key={field} value={field}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+
+                        {clause.field === 'self' ? (
+                            <Select value={clause.value} onValueChange={(self) => updateClause(clause.id, { value: self })}>
+                                <SelectTrigger size="sm" className="flex-1 bg-background" aria-label="Text post">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="yes">Text posts only</SelectItem>
+                                    <SelectItem value="no">Link posts only</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        ) : (
+                            <Input
+                                value={clause.value}
+                                onChange={(e) => updateClause(clause.id, { value: e.target.value })}
+                                placeholder={PLACEHOLDERS[clause.field]}
+                                className="h-8 flex-1 bg-background"
+                                aria-label="Value"
+                            />
+                        )}
+
+                        {clause.field === 'text' && (
+                            <Button
+                                type="button"
+                                variant={clause.exact ? 'secondary' : 'ghost'}
+                                size="icon-sm"
+                                onClick={() => updateClause(clause.id, { exact: !clause.exact || undefined })}
+                                title="Exact phrase"
+                                aria-label="Exact phrase"
+                                aria-pressed={Boolean(clause.exact)}
+                            >
+                                <Quote className="h-3.5 w-3.5" />
+                            </Button>
+                        )}
+                        <Button
+                            type="button"
+                            variant={clause.negate ? 'destructive' : 'ghost'}
+                            size="icon-sm"
+                            onClick={() => updateClause(clause.id, { negate: !clause.negate || undefined })}
+                            title="Exclude matches"
+                            aria-label="Exclude matches"
+                            aria-pressed={Boolean(clause.negate)}
+                        >
+                            <Ban className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => removeClause(clause.id)}
+                            aria-label="Remove clause"
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </Button>
+                    </div>
+                ))}
+            </div>
+
+            {!parseError && serialized && (
+                <p className="text-xs text-muted-foreground">
+                    Reddit query: <code className="rounded bg-background px-1.5 py-0.5 font-mono text-foreground">{serialized}</code>
+                </p>
+            )}
+            {issues.length > 0 && (
+                <ul className="text-xs text-destructive space-y-0.5">
+                    {issues.map((issue) => (
+                        <li key={issue}>{issue}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -1,11 +1,14 @@
 /**
  * Sortable results table for displaying Reddit posts.
  * Supports client-side sorting on all columns, including AI relevance score.
+ * Clicking a row opens the post detail drawer. Crossposts and near-duplicates are
+ * folded under their most engaged copy behind an "n similar" expander.
  */
 
 'use client';
 
-import { useState, useMemo } from 'react';
+import { Fragment, useState, useMemo } from 'react';
+import Link from 'next/link';
 import {
     Table,
     TableBody,
@@ -17,7 +20,10 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RedditPost, SortField, SortConfig } from '@/types';
-import { ArrowUpDown, ArrowUp, ArrowDown, ExternalLink, MessageSquare, ThumbsUp, Sparkles } from 'lucide-react';
+import { formatDate, formatNumber } from '@/lib/format';
+import { isDeletedAuthor } from '@/lib/author-insights';
+import { PostDetailDrawer } from '@/components/PostDetailDrawer';
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronRight, ExternalLink, Layers, MessageSquare, ThumbsUp, Sparkles, RefreshCw } from 'lucide-react';
 
 interface ResultsTableProps {
     posts: RedditPost[];
@@ -25,28 +31,14 @@ interface ResultsTableProps {
     totalResults: number;
     cached?: boolean;
     cacheAge?: number;
+    refreshing?: boolean;
     query?: string;
 }
 
-function formatDate(dateString: string): string {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-
-    if (diffDays === 0) return 'Today';
-    if (diffDays === 1) return 'Yesterday';
-    if (diffDays < 7) return `${diffDays}d ago`;
-    if (diffDays < 30) return `${Math.floor(diffDays / 7)}w ago`;
-    if (diffDays < 365) return `${Math.floor(diffDays / 30)}mo ago`;
-    return `${Math.floor(diffDays / 365)}y ago`;
-}
-
-function formatNumber(num: number): string {
-    if (num === undefined || num === null || !Number.isFinite(num)) return '0';
-    if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
-    if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
-    return num.toString();
+function formatCacheAge(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
 }
 
 function SortIcon({ field, sortConfig }: { field: SortField; sortConfig: SortConfig }) {
@@ -66,12 +58,24 @@ export function ResultsTable({
     totalResults,
     cached,
     cacheAge,
+    refreshing,
     query,
 }: ResultsTableProps) {
     const [sortConfig, setSortConfig] = useState<SortConfig>({
         field: 'upvotes',
         direction: 'desc',
     });
+    const [selectedPost, setSelectedPost] = useState<RedditPost | null>(null);
+    const [expandedClusters, setExpandedClusters] = useState<Set<string>>(new Set());
+
+    const toggleCluster = (postId: string) => {
+        setExpandedClusters((prev) => {
+            const next = new Set(prev);
+            if (next.has(postId)) next.delete(postId);
+            else next.add(postId);
+            return next;
+        });
+    };
 
     const hasRelevance = useMemo(() => posts.some(p => p.relevanceScore !== undefined), [posts]);
     const activeSortConfig = useMemo<SortConfig>(() => {
@@ -108,6 +112,8 @@ export function ResultsTable({
                     return a.title.localeCompare(b.title) * dir;
                 case 'subreddit':
                     return a.subreddit.localeCompare(b.subreddit) * dir;
+                case 'author':
+                    return a.author.localeCompare(b.author) * dir;
                 default:
                     return 0;
             }
@@ -131,7 +137,7 @@ export function ResultsTable({
                 <div className="rounded-xl border border-border/60 overflow-hidden">
                     <div className="bg-muted/30 p-3">
                         <div className="flex gap-4">
-                            {[1, 2, 3, 4, 5].map((i) => (
+                            {[1, 2, 3, 4, 5, 6].map((i) => (
                                 <Skeleton key={i} className="h-4 w-20" />
                             ))}
                         </div>
@@ -140,6 +146,7 @@ export function ResultsTable({
                         <div key={i} className="flex items-center gap-4 p-3 border-t border-border/30">
                             <Skeleton className="h-4 flex-1" />
                             <Skeleton className="h-4 w-16" />
+                            <Skeleton className="h-4 w-20" />
                             <Skeleton className="h-4 w-12" />
                             <Skeleton className="h-4 w-12" />
                             <Skeleton className="h-4 w-14" />
@@ -171,8 +178,14 @@ export function ResultsTable({
                     </h2>
                 </div>
                 {cached && cacheAge !== undefined && (
-                    <Badge variant="secondary" className="text-xs w-fit">
-                        📋 Cached result • {cacheAge < 60 ? `${cacheAge}s` : `${Math.floor(cacheAge / 60)}m`} ago
+                    <Badge variant="secondary" className="text-xs w-fit gap-1.5">
+                        📋 Cached result • {formatCacheAge(cacheAge)} ago
+                        {refreshing && (
+                            <span className="flex items-center gap-1 text-sky-600">
+                                <RefreshCw className="h-3 w-3 animate-spin" />
+                                refreshing
+                            </span>
+                        )}
                     </Badge>
                 )}
             </div>
@@ -213,6 +226,15 @@ export function ResultsTable({
                                         <SortIcon field="subreddit" sortConfig={activeSortConfig} />
                                     </div>
                                 </TableHead>
+                                <TableHead
+                                    className="cursor-pointer select-none hover:text-foreground transition-colors"
+                                    onClick={() => handleSort('author')}
+                                >
+                                    <div className="flex items-center">
+                                        Author
+                                        <SortIcon field="author" sortConfig={activeSortConfig} />
+                                    </div>
+                                </TableHead>
                                 <TableHead
                                     className="cursor-pointer select-none hover:text-foreground transition-colors text-right"
                                     onClick={() => handleSort('upvotes')}
@@ -245,67 +267,145 @@ export function ResultsTable({
                         </TableHeader>
                         <TableBody>
                             {sortedPosts.map((post, index) => (
-                                <TableRow
-                                    key={post.id}
-                                    className={`group transition-colors ${index % 2 === 0 ? '' : 'bg-muted/10'}`}
-                                >
-                                    {hasRelevance && (
+                                <Fragment key={post.id}>
+                                    <TableRow
+                                        onClick={() => setSelectedPost(post)}
+                                        className={`group cursor-pointer transition-colors ${index % 2 === 0 ? '' : 'bg-muted/10'}`}
+                                    >
+                                        {hasRelevance && (
+                                            <TableCell>
+                                                <div className={`inline-flex items-center justify-center w-8 h-8 rounded-full border text-xs font-bold ${getScoreColor(post.relevanceScore || 0)}`}>
+                                                    {post.relevanceScore}
+                                                </div>
+                                            </TableCell>
+                                        )}
+                                        <TableCell className="max-w-[400px]">
+                                            <button
+                                                type="button"
+                                                className="text-left text-sm font-medium text-foreground hover:text-primary transition-colors line-clamp-2"
+                                                title={post.title}
+                                            >
+                                                {post.title}
+                                            </button>
+                                            {post.similarPosts && post.similarPosts.length > 0 && (
+                                                <button
+                                                    type="button"
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        toggleCluster(post.id);
+                                                    }}
+                                                    aria-expanded={expandedClusters.has(post.id)}
+                                                    className="mt-1 inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors"
+                                                    title={`${formatNumber(post.clusterUpvotes ?? post.upvotes)} upvotes and ${formatNumber(post.clusterComments ?? post.comments)} comments across all copies`}
+                                                >
+                                                    <ChevronRight className={`h-3 w-3 transition-transform ${expandedClusters.has(post.id) ? 'rotate-90' : ''}`} />
+                                                    <Layers className="h-3 w-3" />
+                                                    {post.similarPosts.length} similar
+                                                </button>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant="outline" className="text-xs font-normal whitespace-nowrap hover:border-primary/40 hover:text-primary" asChild>
+                                                <Link
+                                                    href={`/subreddit/${encodeURIComponent(post.subreddit)}`}
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    title={`View r/${post.subreddit}`}
+                                                >
+                                                    {post.subreddit}
+                                                </Link>
+                                            </Badge>
+                                        </TableCell>
                                         <TableCell>
-                                            <div className={`inline-flex items-center justify-center w-8 h-8 rounded-full border text-xs font-bold ${getScoreColor(post.relevanceScore || 0)}`}>
-                                                {post.relevanceScore}
+                                            {isDeletedAuthor(post.author) ? (
+                                                <span className="text-sm text-muted-foreground">[deleted]</span>
+                                            ) : (
+                                                <Link
+                                                    href={`/user/${encodeURIComponent(post.author)}`}
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    className="text-sm text-muted-foreground hover:text-primary transition-colors whitespace-nowrap"
+                                                    title={`Research u/${post.author}`}
+                                                >
+                                                    u/{post.author}
+                                                </Link>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <div className="flex items-center justify-end gap-1 text-sm">
+                                                <ThumbsUp className="h-3.5 w-3.5 text-orange-500" />
+                                                <span className="font-medium">{formatNumber(post.upvotes)}</span>
                                             </div>
                                         </TableCell>
-                                    )}
-                                    <TableCell className="max-w-[400px]">
-                                        <a
-                                            href={post.link}
-                                            target="_blank"
-                                            rel="noopener noreferrer"
-                                            className="text-sm font-medium text-foreground hover:text-primary transition-colors line-clamp-2"
-                                            title={post.title}
-                                        >
-                                            {post.title}
-                                        </a>
-                                    </TableCell>
-                                    <TableCell>
-                                        <Badge variant="outline" className="text-xs font-normal whitespace-nowrap">
-                                            {post.subreddit}
-                                        </Badge>
-                                    </TableCell>
-                                    <TableCell className="text-right">
-                                        <div className="flex items-center justify-end gap-1 text-sm">
-                                            <ThumbsUp className="h-3.5 w-3.5 text-orange-500" />
-                                            <span className="font-medium">{formatNumber(post.upvotes)}</span>
-                                        </div>
-                                    </TableCell>
-                                    <TableCell className="text-right">
-                                        <div className="flex items-center justify-end gap-1 text-sm">
-                                            <MessageSquare className="h-3.5 w-3.5 text-blue-500" />
-                                            <span>{formatNumber(post.comments)}</span>
-                                        </div>
-                                    </TableCell>
-                                    <TableCell>
-                                        <span className="text-sm text-muted-foreground whitespace-nowrap">
-                                            {formatDate(post.created)}
-                                        </span>
-                                    </TableCell>
-                                    <TableCell>
-                                        <a
-                                            href={post.link}
-                                            target="_blank"
-                                            rel="noopener noreferrer"
-                                            className="inline-flex items-center justify-center h-8 w-8 rounded-md hover:bg-muted transition-colors"
-                                            aria-label={`Open post: ${post.title}`}
+                                        <TableCell className="text-right">
+                                            <div className="flex items-center justify-end gap-1 text-sm">
+                                                <MessageSquare className="h-3.5 w-3.5 text-blue-500" />
+                                                <span>{formatNumber(post.comments)}</span>
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <span className="text-sm text-muted-foreground whitespace-nowrap">
+                                                {formatDate(post.created)}
+                                            </span>
+                                        </TableCell>
+                                        <TableCell>
+                                            <a
+                                                href={post.link}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                onClick={(e) => e.stopPropagation()}
+                                                className="inline-flex items-center justify-center h-8 w-8 rounded-md hover:bg-muted transition-colors"
+                                                aria-label={`Open post: ${post.title}`}
+                                            >
+                                                <ExternalLink className="h-4 w-4 text-muted-foreground group-hover:text-primary transition-colors" />
+                                            </a>
+                                        </TableCell>
+                                    </TableRow>
+                                    {expandedClusters.has(post.id) && post.similarPosts?.map((similar) => (
+                                        <TableRow
+                                            key={`${post.id}-${similar.id}`}
+                                            onClick={() => setSelectedPost(similar)}
+                                            className="group cursor-pointer bg-muted/20 text-muted-foreground"
                                         >
-                                            <ExternalLink className="h-4 w-4 text-muted-foreground group-hover:text-primary transition-colors" />
-                                        </a>
-                                    </TableCell>
-                                </TableRow>
+                                            {hasRelevance && <TableCell />}
+                                            <TableCell className="max-w-[400px] pl-8">
+                                                <span className="text-sm line-clamp-1" title={similar.title}>
+                                                    {similar.title}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant="outline" className="text-xs font-normal whitespace-nowrap">
+                                                    {similar.subreddit}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell>
+                                                <span className="text-sm whitespace-nowrap">u/{similar.author}</span>
+                                            </TableCell>
+                                            <TableCell className="text-right text-sm">{formatNumber(similar.upvotes)}</TableCell>
+                                            <TableCell className="text-right text-sm">{formatNumber(similar.comments)}</TableCell>
+                                            <TableCell>
+                                                <span className="text-sm whitespace-nowrap">{formatDate(similar.created)}</span>
+                                            </TableCell>
+                                            <TableCell>
+                                                <a
+                                                    href={similar.permalink || similar.link}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    className="inline-flex items-center justify-center h-8 w-8 rounded-md hover:bg-muted transition-colors"
+                                                    aria-label={`Open post: ${similar.title}`}
+                                                >
+                                                    <ExternalLink className="h-4 w-4 text-muted-foreground group-hover:text-primary transition-colors" />
+                                                </a>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </Fragment>
                             ))}
                         </TableBody>
                     </Table>
                 </div>
             </div>
+
+            <PostDetailDrawer post={selectedPost} onClose={() => setSelectedPost(null)} />
         </div>
     );
 }
@@ -1,5 +1,7 @@
 /**
- * Search form component with keyword input, sort selector, and search button.
+ * Search form component with keyword input (optionally edited through the query builder),
+ * subreddit scope, sort selector, time range (preset or custom dates), and search button.
+ * Toggles switch between post, context (AI) and comment search.
  * Includes 500ms debounce on the search action.
  */
 
@@ -8,7 +10,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Search, Loader2, Flame, TrendingUp, Calendar, Sparkles } from 'lucide-react';
+import { Search, Loader2, Flame, TrendingUp, Calendar, Sparkles, SlidersHorizontal, MessageSquareQuote } from 'lucide-react';
 import {
     Select,
     SelectContent,
@@ -16,21 +18,32 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select";
+import { SubredditInput } from '@/components/SubredditInput';
+import { QueryBuilder } from '@/components/QueryBuilder';
+import { DateRangeInput, SearchMode } from '@/types';
 
+// Select value that swaps the preset windows for from/to date inputs
+const CUSTOM_RANGE = 'custom';
 
 interface SearchFormProps {
-    onSearch: (keywords: string, sort: 'top' | 'hot' | 'relevance', time?: string, isContextMode?: boolean) => void;
+    onSearch: (keywords: string, sort: 'top' | 'hot' | 'relevance', time?: string, mode?: SearchMode, subreddits?: string[], dateRange?: DateRangeInput) => void;
     isLoading: boolean;
     initialKeywords?: string;
     initialSort?: 'top' | 'hot' | 'relevance';
     initialTime?: string;
+    initialSubreddits?: string[];
+    initialDateRange?: DateRangeInput;
 }
 
-export function SearchForm({ onSearch, isLoading, initialKeywords = '', initialSort = 'top', initialTime = 'all' }: SearchFormProps) {
+export function SearchForm({ onSearch, isLoading, initialKeywords = '', initialSort = 'top', initialTime = 'all', initialSubreddits = [], initialDateRange = {} }: SearchFormProps) {
     const [keywords, setKeywords] = useState(initialKeywords);
     const [sort, setSort] = useState<'top' | 'hot' | 'relevance'>(initialSort);
-    const [time, setTime] = useState(initialTime);
-    const [isContextMode, setIsContextMode] = useState(false);
+    const [time, setTime] = useState(initialDateRange.from || initialDateRange.to ? CUSTOM_RANGE : initialTime);
+    const [dateFrom, setDateFrom] = useState(initialDateRange.from ?? '');
+    const [dateTo, setDateTo] = useState(initialDateRange.to ?? '');
+    const [subreddits, setSubreddits] = useState<string[]>(initialSubreddits);
+    const [mode, setMode] = useState<SearchMode>('posts');
+    const [showBuilder, setShowBuilder] = useState(false);
     const debounceTimer = useRef<NodeJS.Timeout | null>(null);
 
     // Clean up debounce timer on unmount
@@ -40,51 +53,92 @@ export function SearchForm({ onSearch, isLoading, initialKeywords = '', initialS
         };
     }, []);
 
+    const isContextMode = mode === 'context';
+    const isCommentMode = mode === 'comments';
+    const isCustomRange = time === CUSTOM_RANGE;
+    // YYYY-MM-DD strings compare chronologically
+    const rangeError = isCustomRange && dateFrom && dateTo && dateFrom > dateTo
+        ? 'Start date must be on or before end date'
+        : null;
+    const today = new Date().toISOString().slice(0, 10);
+
+    const submitSearch = useCallback(() => {
+        // A custom range searches all time on Reddit's side; the server trims to the dates
+        const dateRange = isCustomRange ? { from: dateFrom || undefined, to: dateTo || undefined } : undefined;
+        onSearch(keywords.trim(), sort, isCustomRange ? 'all' : time, mode, subreddits, dateRange);
+    }, [keywords, sort, time, isCustomRange, dateFrom, dateTo, mode, subreddits, onSearch]);
+
     const handleSubmit = useCallback(
         (e: React.FormEvent) => {
             e.preventDefault();
-            if (!keywords.trim()) return;
+            if (!keywords.trim() || rangeError) return;
             if (debounceTimer.current) clearTimeout(debounceTimer.current);
 
-            // Immediate submit for Context Mode (no debounce needed as it's explicit)
-            if (isContextMode) {
-                onSearch(keywords.trim(), sort, time, true);
+            // Immediate submit for Context and Comment Mode (no debounce needed as they're explicit)
+            if (mode !== 'posts') {
+                submitSearch();
                 return;
             }
 
             debounceTimer.current = setTimeout(() => {
-                onSearch(keywords.trim(), sort, time, false);
+                submitSearch();
             }, 100);
         },
-        [keywords, sort, time, isContextMode, onSearch]
+        [keywords, rangeError, mode, submitSearch]
     );
 
     const handleKeyDown = useCallback(
         (e: React.KeyboardEvent) => {
             if (e.key === 'Enter') {
                 e.preventDefault();
-                if (!keywords.trim() || isLoading) return;
-                onSearch(keywords.trim(), sort, time, isContextMode);
+                if (!keywords.trim() || isLoading || rangeError) return;
+                submitSearch();
             }
         },
-        [keywords, sort, time, isContextMode, isLoading, onSearch]
+        [keywords, isLoading, rangeError, submitSearch]
     );
 
     return (
         <form onSubmit={handleSubmit} className="w-full space-y-4">
-            {/* Context Mode Toggle */}
-            <div className="flex justify-end mb-2">
+            {/* Query Builder + Comment / Context Mode Toggles */}
+            <div className="flex justify-between mb-2">
                 <button
                     type="button"
-                    onClick={() => setIsContextMode(!isContextMode)}
-                    className={`text-xs flex items-center gap-2 px-3 py-1.5 rounded-full border transition-all ${isContextMode
-                            ? 'bg-purple-500/10 text-purple-600 border-purple-200 dark:border-purple-800'
+                    onClick={() => setShowBuilder(!showBuilder)}
+                    className={`text-xs flex items-center gap-2 px-3 py-1.5 rounded-full border transition-all ${showBuilder
+                            ? 'bg-primary/10 text-foreground border-border'
                             : 'bg-muted/50 text-muted-foreground border-transparent hover:bg-muted'
                         }`}
+                    aria-expanded={showBuilder}
                 >
-                    <div className={`w-2 h-2 rounded-full ${isContextMode ? 'bg-purple-500 animate-pulse' : 'bg-muted-foreground/30'}`} />
-                    {isContextMode ? 'Context Mode Active' : 'Enable Context Mode'}
+                    <SlidersHorizontal className="h-3 w-3" />
+                    {showBuilder ? 'Hide Query Builder' : 'Query Builder'}
                 </button>
+                <div className="flex gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setMode(isCommentMode ? 'posts' : 'comments')}
+                        className={`text-xs flex items-center gap-2 px-3 py-1.5 rounded-full border transition-all ${isCommentMode
+                                ? 'bg-sky-500/10 text-sky-600 border-sky-200 dark:border-sky-800'
+                                : 'bg-muted/50 text-muted-foreground border-transparent hover:bg-muted'
+                            }`}
+                        aria-pressed={isCommentMode}
+                    >
+                        <MessageSquareQuote className="h-3 w-3" />
+                        {isCommentMode ? 'Searching Comments' : 'Search Comments'}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setMode(isContextMode ? 'posts' : 'context')}
+                        className={`text-xs flex items-center gap-2 px-3 py-1.5 rounded-full border transition-all ${isContextMode
+                                ? 'bg-purple-500/10 text-purple-600 border-purple-200 dark:border-purple-800'
+                                : 'bg-muted/50 text-muted-foreground border-transparent hover:bg-muted'
+                            }`}
+                    >
+                        <div className={`w-2 h-2 rounded-full ${isContextMode ? 'bg-purple-500 animate-pulse' : 'bg-muted-foreground/30'}`} />
+                        {isContextMode ? 'Context Mode Active' : 'Enable Context Mode'}
+                    </button>
+                </div>
             </div>
 
             {/* Keyword Input */}
@@ -92,7 +146,11 @@ export function SearchForm({ onSearch, isLoading, initialKeywords = '', initialS
                 <Search className={`absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 ${isContextMode ? 'text-purple-500' : 'text-muted-foreground'}`} />
                 <Input
                     type="text"
-                    placeholder={isContextMode ? "Describe what you're looking for (e.g. 'best laptop for coding under $1000')..." : "Search Reddit posts... (e.g., 'machine learning', 'web development')"}
+                    placeholder={isContextMode
+                        ? "Describe what you're looking for (e.g. 'best laptop for coding under $1000')..."
+                        : isCommentMode
+                            ? "Find comments that mention... (e.g., 'burr grinder', \"worth every penny\")"
+                            : "Search Reddit posts... (e.g., 'machine learning', 'web development')"}
                     value={keywords}
                     onChange={(e) => setKeywords(e.target.value)}
                     onKeyDown={handleKeyDown}
@@ -106,6 +164,12 @@ export function SearchForm({ onSearch, isLoading, initialKeywords = '', initialS
                 />
             </div>
 
+            {/* Query Builder (title:, author:, self:, NOT, OR ...) — kept in sync with the input above */}
+            {showBuilder && <QueryBuilder value={keywords} onChange={setKeywords} disabled={isLoading} />}
+
+            {/* Subreddit Scope */}
+            <SubredditInput value={subreddits} onChange={setSubreddits} disabled={isLoading} />
+
             {/* Sort + Search Row */}
             <div className="flex flex-col sm:flex-row gap-3 items-stretch sm:items-center">
                 {/* Sort Radio Buttons */}
@@ -162,13 +226,42 @@ export function SearchForm({ onSearch, isLoading, initialKeywords = '', initialS
                         <SelectItem value="month">Last Month</SelectItem>
                         <SelectItem value="year">Last Year</SelectItem>
                         <SelectItem value="all">Lifetime</SelectItem>
+                        <SelectItem value={CUSTOM_RANGE}>Custom Range</SelectItem>
                     </SelectContent>
                 </Select>
 
+                {/* Custom Date Range (UTC days, inclusive) */}
+                {isCustomRange && (
+                    <div className="flex items-center gap-2">
+                        <Input
+                            type="date"
+                            value={dateFrom}
+                            max={dateTo || today}
+                            onChange={(e) => setDateFrom(e.target.value)}
+                            className="h-10 w-full sm:w-[150px] bg-muted/50 border-0"
+                            aria-label="From date"
+                            aria-invalid={Boolean(rangeError)}
+                            disabled={isLoading}
+                        />
+                        <span className="text-sm text-muted-foreground">to</span>
+                        <Input
+                            type="date"
+                            value={dateTo}
+                            min={dateFrom || undefined}
+                            max={today}
+                            onChange={(e) => setDateTo(e.target.value)}
+                            className="h-10 w-full sm:w-[150px] bg-muted/50 border-0"
+                            aria-label="To date"
+                            aria-invalid={Boolean(rangeError)}
+                            disabled={isLoading}
+                        />
+                    </div>
+                )}
+
                 {/* Search Button */}
                 <Button
                     type="submit"
-                    disabled={!keywords.trim() || isLoading}
+                    disabled={!keywords.trim() || isLoading || Boolean(rangeError)}
                     className={`h-10 px-6 sm:ml-auto text-white border-0 shadow-md hover:shadow-lg transition-all ${isContextMode
                             ? 'bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700'
                             : 'bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600'
@@ -177,16 +270,18 @@ export function SearchForm({ onSearch, isLoading, initialKeywords = '', initialS
                     {isLoading ? (
                         <>
                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            {isContextMode ? 'Analyzing...' : 'Searching...'}
+                            {isContextMode ? 'Analyzing...' : isCommentMode ? 'Reading threads...' : 'Searching...'}
                         </>
                     ) : (
                         <>
                             {isContextMode ? <div className="mr-2">✨</div> : <Search className="mr-2 h-4 w-4" />}
-                            {isContextMode ? 'Deep Search' : 'Search Reddit'}
+                            {isContextMode ? 'Deep Search' : isCommentMode ? 'Search Comments' : 'Search Reddit'}
                         </>
                     )}
                 </Button>
             </div>
+
+            {rangeError && <p className="text-xs text-destructive">{rangeError}</p>}
         </form>
     );
 }
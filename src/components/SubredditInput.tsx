@@ -0,0 +1,82 @@
+/**
+ * Chip input for scoping a search to specific subreddits.
+ * Enter, comma, space or "+" commits a chip; Backspace on an empty field removes the last one.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { Hash, X } from 'lucide-react';
+import { MAX_SUBREDDITS, parseSubreddits } from '@/lib/subreddits';
+
+interface SubredditInputProps {
+    value: string[];
+    onChange: (subreddits: string[]) => void;
+    disabled?: boolean;
+}
+
+export function SubredditInput({ value, onChange, disabled }: SubredditInputProps) {
+    const [draft, setDraft] = useState('');
+
+    const commitDraft = useCallback(() => {
+        const added = parseSubreddits(draft);
+        setDraft('');
+        if (added.length === 0) return;
+        onChange(parseSubreddits([...value, ...added]));
+    }, [draft, value, onChange]);
+
+    const removeChip = useCallback(
+        (name: string) => onChange(value.filter((sub) => sub !== name)),
+        [value, onChange]
+    );
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',' || e.key === ' ' || e.key === '+') {
+            e.preventDefault();
+            // Stop Enter from also submitting the search form
+            e.stopPropagation();
+            commitDraft();
+            return;
+        }
+        if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+            removeChip(value[value.length - 1]);
+        }
+    };
+
+    const isFull = value.length >= MAX_SUBREDDITS;
+
+    return (
+        <div
+            className={`flex flex-wrap items-center gap-1.5 min-h-10 px-3 py-1.5 rounded-md border border-border/60 bg-background text-sm ${disabled ? 'opacity-50 pointer-events-none' : ''}`}
+        >
+            <Hash className="h-4 w-4 text-muted-foreground shrink-0" />
+            {value.map((name) => (
+                <span
+                    key={name}
+                    className="inline-flex items-center gap-1 rounded-full bg-orange-500/10 text-orange-600 border border-orange-500/20 px-2 py-0.5 text-xs font-medium"
+                >
+                    r/{name}
+                    <button
+                        type="button"
+                        onClick={() => removeChip(name)}
+                        className="hover:text-orange-800 transition-colors"
+                        aria-label={`Remove r/${name}`}
+                    >
+                        <X className="h-3 w-3" />
+                    </button>
+                </span>
+            ))}
+            <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={commitDraft}
+                placeholder={value.length === 0 ? 'All of Reddit — add subreddits to narrow (e.g. r/webdev)' : isFull ? '' : 'Add another...'}
+                className="flex-1 min-w-[120px] bg-transparent outline-none placeholder:text-muted-foreground"
+                aria-label="Subreddits"
+                disabled={disabled || isFull}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,26 @@
+/**
+ * React Query hook for an author's profile, history and account-quality signals.
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { AuthorProfileResponse } from '@/types';
+
+async function fetchAuthorProfile(name: string): Promise<AuthorProfileResponse> {
+    const { data } = await axios.get<AuthorProfileResponse>(`/api/users/${encodeURIComponent(name)}`);
+    return data;
+}
+
+export function useAuthorProfile(name: string) {
+    return useQuery<AuthorProfileResponse>({
+        queryKey: ['user-profile', name],
+        queryFn: () => fetchAuthorProfile(name),
+        enabled: name.length > 0,
+        staleTime: 15 * 60 * 1000, // 15 minutes — matches server cache TTL
+        // Deleted accounts won't reappear on retry
+        retry: (failureCount, error) =>
+            failureCount < 1 && !(axios.isAxiosError(error) && [400, 404].includes(error.response?.status ?? 0)),
+    });
+}
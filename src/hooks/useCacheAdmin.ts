@@ -0,0 +1,64 @@
+/**
+ * Hook for the cache admin panel: lists keys under a prefix and deletes by key or prefix.
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { CacheKeyInfo, CacheStats } from '@/types';
+
+export interface CacheAdminResponse extends CacheStats {
+    prefix: string;
+    keys: CacheKeyInfo[];
+    truncated: boolean;
+}
+
+type DeleteTarget = { key: string } | { prefix: string };
+
+function adminHeaders(adminToken: string): Record<string, string> {
+    return adminToken ? { 'x-admin-token': adminToken } : {};
+}
+
+async function fetchCacheEntries(prefix: string, adminToken: string): Promise<CacheAdminResponse> {
+    const { data } = await axios.get<CacheAdminResponse>('/api/admin/cache', {
+        params: { prefix: prefix || undefined },
+        headers: adminHeaders(adminToken),
+    });
+    return data;
+}
+
+async function deleteCacheEntries(target: DeleteTarget, adminToken: string): Promise<number> {
+    const { data } = await axios.delete<{ deleted: number }>('/api/admin/cache', {
+        params: target,
+        headers: adminHeaders(adminToken),
+    });
+    return data.deleted;
+}
+
+export function useCacheAdmin(prefix: string, adminToken: string) {
+    const queryClient = useQueryClient();
+
+    const listQuery = useQuery<CacheAdminResponse>({
+        queryKey: ['cache-admin', prefix, adminToken],
+        queryFn: () => fetchCacheEntries(prefix, adminToken),
+        retry: false,
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: (target: DeleteTarget) => deleteCacheEntries(target, adminToken),
+        onSuccess: () => {
+            void queryClient.invalidateQueries({ queryKey: ['cache-admin'] });
+        },
+    });
+
+    return {
+        data: listQuery.data,
+        isLoading: listQuery.isLoading,
+        isFetching: listQuery.isFetching,
+        error: listQuery.error,
+        refetch: listQuery.refetch,
+        deleteEntries: deleteMutation.mutate,
+        isDeleting: deleteMutation.isPending,
+    };
+}
@@ -0,0 +1,49 @@
+/**
+ * React Query hook for comment search: matching comments from the top threads of a query.
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { CommentSearchResponse, DateRangeInput } from '@/types';
+
+type RedditSort = 'top' | 'hot' | 'relevance';
+
+async function searchComments(
+    keywords: string,
+    sort: RedditSort,
+    time: string | undefined,
+    subreddits: string[],
+    dateRange: DateRangeInput
+): Promise<CommentSearchResponse> {
+    const { data } = await axios.get<CommentSearchResponse>('/api/reddit/comments', {
+        params: {
+            keywords,
+            sort,
+            time,
+            from: dateRange.from || undefined,
+            to: dateRange.to || undefined,
+            subreddits: subreddits.length > 0 ? subreddits.join(',') : undefined,
+        },
+    });
+    return data;
+}
+
+export function useCommentSearch(
+    keywords: string,
+    sort: RedditSort,
+    time?: string,
+    subreddits: string[] = [],
+    dateRange: DateRangeInput = {}
+) {
+    return useQuery<CommentSearchResponse>({
+        queryKey: ['reddit-comments', keywords, sort, time, subreddits, dateRange.from, dateRange.to],
+        queryFn: () => searchComments(keywords, sort, time, subreddits, dateRange),
+        enabled: keywords.length > 0,
+        staleTime: 30 * 60 * 1000, // 30 minutes — matches server cache TTL
+        // Each attempt reads up to 10 threads; a query with nothing to match won't succeed on retry
+        retry: (failureCount, error) =>
+            failureCount < 1 && !(axios.isAxiosError(error) && [400, 429].includes(error.response?.status ?? 0)),
+    });
+}
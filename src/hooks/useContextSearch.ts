@@ -1,15 +1,131 @@
-
-import { useState, useCallback } from 'react';
-import { ContextSearchResponse } from '@/types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ContextPipelineEvent, ContextSearchResponse, DateRangeInput, PipelineConfigInput, QueryIntent, RedditPost } from '@/types';
 import { getStoredApiKey } from '@/components/ApiKeyManager';
+import { readSseEvents } from '@/lib/sse';
+import { DEFAULT_PIPELINE_CONFIG, PIPELINE_PRESETS } from '@/lib/pipeline-config';
 
 type ContextSearchStatus = 'idle' | 'analyzing' | 'fetching' | 'filtering' | 'done' | 'error';
 
+// The server refreshes stale results after responding; pick them up once it has had time to finish
+const REVALIDATE_POLL_MS = 20000;
+
+export interface ContextSearchProgress {
+    queries: string[];
+    intent?: QueryIntent;
+    redditCounts: Record<string, number | null>; // null while a query is still in flight
+    candidates?: number;
+    semanticPass?: number;
+    scoredBatches: number;
+    totalBatches: number;
+    percent: number; // 0–100, weighted by how long each stage usually takes
+}
+
 interface ContextSearchState {
     isLoading: boolean;
     status: ContextSearchStatus;
     data: ContextSearchResponse | null;
     error: string | null;
+    progress: ContextSearchProgress | null;
+    partialPosts: RedditPost[]; // Relevant posts from AI batches scored so far
+}
+
+interface ContextSearchRequest {
+    query: string;
+    sort?: 'top' | 'hot' | 'relevance';
+    time?: string;
+    from?: string;
+    to?: string;
+    subreddits: string[];
+    pipeline?: PipelineConfigInput;
+}
+
+const EMPTY_PROGRESS: ContextSearchProgress = {
+    queries: [],
+    redditCounts: {},
+    scoredBatches: 0,
+    totalBatches: 0,
+    percent: 5,
+};
+
+function postContextSearch(request: ContextSearchRequest, stream = false, signal?: AbortSignal): Promise<Response> {
+    const apiKey = getStoredApiKey();
+    const headers: Record<string, string> = apiKey ? { 'x-groq-api-key': apiKey } : {};
+    if (stream) headers.Accept = 'text/event-stream';
+
+    return fetch('/api/context/filter', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(request),
+        signal,
+    });
+}
+
+/**
+ * Folds one stage event into the progress snapshot. Query expansion is ~10% of the
+ * run, Reddit fetching ~40% and AI scoring (the slowest part) the remaining 50%.
+ */
+function applyStage(progress: ContextSearchProgress, event: ContextPipelineEvent): ContextSearchProgress {
+    switch (event.stage) {
+        case 'queries':
+            return {
+                ...progress,
+                queries: event.queries,
+                intent: event.intent,
+                redditCounts: Object.fromEntries(event.queries.map((query) => [query, null])),
+                percent: 10,
+            };
+        case 'reddit': {
+            const redditCounts = { ...progress.redditCounts, [event.query]: event.count };
+            const finished = Object.values(redditCounts).filter((count) => count !== null).length;
+            const total = Math.max(1, Object.keys(redditCounts).length);
+            return { ...progress, redditCounts, percent: 10 + Math.round((40 * finished) / total) };
+        }
+        case 'candidates':
+            return { ...progress, candidates: event.unique, percent: 50 };
+        case 'semantic':
+            return { ...progress, semanticPass: event.passed, percent: 55 };
+        case 'scoring': {
+            const scoredBatches = progress.scoredBatches + 1;
+            return {
+                ...progress,
+                scoredBatches,
+                totalBatches: event.totalBatches,
+                percent: 55 + Math.round((45 * scoredBatches) / Math.max(1, event.totalBatches)),
+            };
+        }
+        default:
+            return progress;
+    }
+}
+
+function statusForStage(event: ContextPipelineEvent): ContextSearchStatus {
+    switch (event.stage) {
+        case 'queries':
+        case 'reddit':
+            return 'fetching';
+        case 'candidates':
+        case 'semantic':
+        case 'scoring':
+            return 'filtering';
+        default:
+            return 'analyzing';
+    }
+}
+
+/**
+ * The relevance cut-off the server will apply, so partial results match the final ones.
+ */
+function minRelevanceFor(pipeline?: PipelineConfigInput): number {
+    return pipeline?.minRelevance
+        ?? (pipeline?.preset ? PIPELINE_PRESETS[pipeline.preset].minRelevance : undefined)
+        ?? DEFAULT_PIPELINE_CONFIG.minRelevance;
+}
+
+function mergePartialPosts(current: RedditPost[], scored: RedditPost[], minRelevance: number): RedditPost[] {
+    const relevant = scored.filter((post) => (post.relevanceScore ?? 0) >= minRelevance);
+    return [...current, ...relevant].sort(
+        (a, b) => (b.relevanceScore ?? 0) - (a.relevanceScore ?? 0) || b.upvotes + b.comments - (a.upvotes + a.comments)
+    );
 }
 
 export function useContextSearch() {
@@ -18,21 +134,43 @@ export function useContextSearch() {
         status: 'idle',
         data: null,
         error: null,
+        progress: null,
+        partialPosts: [],
     });
+    const lastRequest = useRef<ContextSearchRequest | null>(null);
+    const hasRevalidated = useRef(false);
+    const activeController = useRef<AbortController | null>(null);
+
+    // Abandon an in-flight stream when the component unmounts
+    useEffect(() => () => activeController.current?.abort(), []);
 
-    const search = useCallback(async (query: string, sort?: 'top' | 'hot' | 'relevance', time?: string) => {
-        setState((prev) => ({ ...prev, isLoading: true, status: 'analyzing', error: null }));
+    const search = useCallback(async (
+        query: string,
+        sort?: 'top' | 'hot' | 'relevance',
+        time?: string,
+        subreddits: string[] = [],
+        pipeline?: PipelineConfigInput,
+        dateRange?: DateRangeInput
+    ) => {
+        activeController.current?.abort();
+        const controller = new AbortController();
+        activeController.current = controller;
+
+        setState((prev) => ({
+            ...prev,
+            isLoading: true,
+            status: 'analyzing',
+            error: null,
+            progress: EMPTY_PROGRESS,
+            partialPosts: [],
+        }));
+        const request: ContextSearchRequest = { query, sort, time, from: dateRange?.from, to: dateRange?.to, subreddits, pipeline };
+        const minRelevance = minRelevanceFor(pipeline);
+        lastRequest.current = request;
+        hasRevalidated.current = false;
 
         try {
-            const apiKey = getStoredApiKey();
-            const headers: Record<string, string> = apiKey ? { 'x-groq-api-key': apiKey } : {};
-            setState((prev) => ({ ...prev, status: 'fetching' }));
-
-            const res = await fetch('/api/context/filter', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json', ...headers },
-                body: JSON.stringify({ query, sort, time }),
-            });
+            const res = await postContextSearch(request, true, controller.signal);
 
             if (res.status === 429) {
                 throw new Error('Too many requests — please wait a moment and try again');
@@ -42,36 +180,85 @@ export function useContextSearch() {
                 throw new Error('Search timed out — please try again');
             }
 
-            if (!res.ok) {
+            if (!res.ok || !res.body) {
                 const errorData = await res.json().catch(() => ({}));
                 const msg = errorData.error || 'Search failed';
                 const details = errorData.details ? ` (${errorData.details})` : '';
                 throw new Error(`${msg}${details}`);
             }
 
-            const data = (await res.json()) as ContextSearchResponse;
-            setState((prev) => ({ ...prev, status: 'filtering' }));
+            for await (const { data: raw } of readSseEvents(res.body)) {
+                const event = JSON.parse(raw) as ContextPipelineEvent;
 
-            setState({
-                isLoading: false,
-                status: 'done',
-                data,
-                error: null
-            });
+                if (event.stage === 'done') {
+                    setState({
+                        isLoading: false,
+                        status: 'done',
+                        data: event.response,
+                        error: null,
+                        progress: null,
+                        partialPosts: [],
+                    });
+                    return;
+                }
+
+                if (event.stage === 'error') {
+                    const details = event.details ? ` (${event.details})` : '';
+                    throw new Error(`${event.error}${details}`);
+                }
+
+                setState((prev) => ({
+                    ...prev,
+                    status: statusForStage(event),
+                    progress: applyStage(prev.progress ?? EMPTY_PROGRESS, event),
+                    partialPosts: event.stage === 'scoring'
+                        ? mergePartialPosts(prev.partialPosts, event.posts, minRelevance)
+                        : prev.partialPosts,
+                }));
+            }
 
+            throw new Error('Search ended unexpectedly — please try again');
         } catch (error: unknown) {
+            if (controller.signal.aborted) return; // Superseded by a newer search
             console.error('Context search error:', error);
             setState({
                 isLoading: false,
                 status: 'error',
                 data: null,
-                error: error instanceof Error ? error.message : 'Unknown error occurred'
+                error: error instanceof Error ? error.message : 'Unknown error occurred',
+                progress: null,
+                partialPosts: [],
             });
+        } finally {
+            if (activeController.current === controller) activeController.current = null;
         }
     }, []);
 
+    // Silently swap in refreshed results (once) when the server served a stale cache entry
+    useEffect(() => {
+        const request = lastRequest.current;
+        if (!state.data?.refreshing || !request || hasRevalidated.current) return;
+
+        const timer = setTimeout(async () => {
+            hasRevalidated.current = true;
+            try {
+                const res = await postContextSearch(request);
+                if (!res.ok) return;
+                const data = (await res.json()) as ContextSearchResponse;
+                if (lastRequest.current !== request) return;
+                setState((prev) => (prev.isLoading ? prev : { ...prev, data }));
+            } catch (error) {
+                console.warn('Context search revalidation failed:', error);
+            }
+        }, REVALIDATE_POLL_MS);
+
+        return () => clearTimeout(timer);
+    }, [state.data]);
+
     const reset = useCallback(() => {
-        setState({ isLoading: false, status: 'idle', data: null, error: null });
+        activeController.current?.abort();
+        lastRequest.current = null;
+        setState({ isLoading: false, status: 'idle', data: null, error: null, progress: null, partialPosts: [] });
     }, []);
 
     return { ...state, search, reset };
@@ -0,0 +1,27 @@
+/**
+ * React Query hook for a single post's details and comment thread.
+ * Only fetches while a permalink is selected (e.g. the detail drawer is open).
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { PostDetails } from '@/types';
+
+async function fetchPostDetails(permalink: string): Promise<PostDetails> {
+    const { data } = await axios.get<PostDetails>('/api/reddit/post', {
+        params: { permalink },
+    });
+    return data;
+}
+
+export function usePostDetails(permalink: string | null) {
+    return useQuery<PostDetails>({
+        queryKey: ['reddit-post', permalink],
+        queryFn: () => fetchPostDetails(permalink as string),
+        enabled: Boolean(permalink),
+        staleTime: 10 * 60 * 1000, // 10 minutes — matches server cache TTL
+        retry: 1,
+    });
+}
@@ -1,30 +1,101 @@
 /**
  * React Query hook for Reddit search.
- * Manages search state, loading, errors, and caching.
+ * Manages search state, loading, errors, caching and "load more" pagination.
  */
 
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { useInfiniteQuery, InfiniteData } from '@tanstack/react-query';
 import axios from 'axios';
-import { SearchResponse } from '@/types';
+import { DateRangeInput, RedditPost, SearchResponse } from '@/types';
+import { clusterPosts } from '@/lib/clustering';
 
 type RedditSort = 'top' | 'hot' | 'relevance';
 
-async function searchReddit(keywords: string, sort: RedditSort, time?: string): Promise<SearchResponse> {
+const PAGE_SIZE = 100;
+// The server refreshes stale results after responding; pick them up once it has had time to finish
+const REVALIDATE_POLL_MS = 5000;
+
+async function searchReddit(
+    keywords: string,
+    sort: RedditSort,
+    time: string | undefined,
+    subreddits: string[],
+    dateRange: DateRangeInput,
+    after: string | null
+): Promise<SearchResponse> {
     const { data } = await axios.get<SearchResponse>('/api/reddit', {
-        params: { keywords, sort, time },
+        params: {
+            keywords,
+            sort,
+            time,
+            from: dateRange.from || undefined,
+            to: dateRange.to || undefined,
+            limit: PAGE_SIZE,
+            after: after || undefined,
+            subreddits: subreddits.length > 0 ? subreddits.join(',') : undefined,
+        },
     });
     return data;
 }
 
-export function useRedditSearch(keywords: string, sort: RedditSort, time?: string) {
-    return useQuery<SearchResponse>({
-        queryKey: ['reddit-search', keywords, sort, time],
-        queryFn: () => searchReddit(keywords, sort, time),
+/**
+ * Flattens loaded pages into a single response, dropping posts repeated across pages
+ * and folding crossposts and near-duplicates (which often land on different pages) together.
+ */
+function mergePages(data: InfiniteData<SearchResponse, string | null>): SearchResponse {
+    const first = data.pages[0];
+    const last = data.pages[data.pages.length - 1];
+    const seen = new Set<string>();
+    const posts: RedditPost[] = [];
+
+    for (const page of data.pages) {
+        for (const post of page.posts) {
+            if (seen.has(post.id)) continue;
+            seen.add(post.id);
+            posts.push(post);
+        }
+    }
+
+    const clustered = clusterPosts(posts);
+
+    return {
+        ...first,
+        posts: clustered,
+        totalResults: clustered.length,
+        after: last?.after ?? null,
+    };
+}
+
+export function useRedditSearch(
+    keywords: string,
+    sort: RedditSort,
+    time?: string,
+    subreddits: string[] = [],
+    dateRange: DateRangeInput = {}
+) {
+    const query = useInfiniteQuery({
+        queryKey: ['reddit-search', keywords, sort, time, subreddits, dateRange.from, dateRange.to],
+        queryFn: ({ pageParam }) => searchReddit(keywords, sort, time, subreddits, dateRange, pageParam),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.after ?? undefined,
+        select: mergePages,
         enabled: keywords.length > 0,
         staleTime: 5 * 60 * 1000, // 5 minutes — matches server cache TTL
         retry: 2,
         retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000),
     });
+
+    const { data, refetch } = query;
+    const isRefreshing = Boolean(data?.refreshing);
+
+    // Refetch once when the server served a stale cache entry and is refreshing it
+    useEffect(() => {
+        if (!isRefreshing) return;
+        const timer = setTimeout(() => void refetch(), REVALIDATE_POLL_MS);
+        return () => clearTimeout(timer);
+    }, [isRefreshing, refetch]);
+
+    return query;
 }
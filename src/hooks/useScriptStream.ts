@@ -0,0 +1,117 @@
+/**
+ * Streams video script generation from /api/generate-scripts/stream.
+ * Exposes the partial scripts as they arrive and lets the caller cancel mid-generation.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getStoredApiKey } from '@/components/ApiKeyManager';
+import { readSseEvents } from '@/lib/sse';
+import { LlmOutputIssue, ScriptStreamEvent, VideoScripts } from '@/types';
+
+type ScriptStreamStatus = 'idle' | 'streaming' | 'done' | 'cancelled' | 'error';
+
+interface ScriptStreamState {
+    status: ScriptStreamStatus;
+    scripts: VideoScripts;
+    error: string | null;
+}
+
+export interface ScriptStreamRequest {
+    hook: string;
+    concept: string;
+    scriptsPrompt?: string;
+}
+
+export interface ScriptStreamResult {
+    scripts: VideoScripts;
+    complete: boolean; // False when cancelled before the model finished
+    rateLimit?: { remaining: number; limit: number; resetInSeconds: number };
+    issue?: LlmOutputIssue; // Set when the final output failed validation
+}
+
+const EMPTY_SCRIPTS: VideoScripts = { variation1: '', variation2: '' };
+
+export function useScriptStream() {
+    const [state, setState] = useState<ScriptStreamState>({
+        status: 'idle',
+        scripts: EMPTY_SCRIPTS,
+        error: null,
+    });
+    const controllerRef = useRef<AbortController | null>(null);
+
+    // Stop any running generation when the component unmounts
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    /**
+     * Starts a generation, cancelling any previous one. Resolves with the final
+     * (or partial, if cancelled) scripts; rejects when generation fails.
+     */
+    const generate = useCallback(async (request: ScriptStreamRequest): Promise<ScriptStreamResult> => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+
+        let scripts: VideoScripts = { ...EMPTY_SCRIPTS };
+        setState({ status: 'streaming', scripts, error: null });
+
+        try {
+            const apiKey = getStoredApiKey();
+            const res = await fetch('/api/generate-scripts/stream', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { 'x-groq-api-key': apiKey } : {}),
+                },
+                body: JSON.stringify(request),
+                signal: controller.signal,
+            });
+
+            if (!res.ok || !res.body) {
+                const errorData = await res.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Failed to generate scripts');
+            }
+
+            for await (const { data } of readSseEvents(res.body)) {
+                const event = JSON.parse(data) as ScriptStreamEvent;
+
+                if (event.type === 'delta') {
+                    scripts = { ...scripts, [event.variation]: scripts[event.variation] + event.text };
+                    setState((prev) => ({ ...prev, scripts }));
+                } else if (event.type === 'done') {
+                    // Prefer the fully parsed result, but keep streamed text if parsing came up empty
+                    scripts = {
+                        variation1: event.scripts.variation1 || scripts.variation1,
+                        variation2: event.scripts.variation2 || scripts.variation2,
+                    };
+                    setState({ status: 'done', scripts, error: null });
+                    return { scripts, complete: true, rateLimit: event.rateLimit, issue: event.issue };
+                } else if (event.type === 'error') {
+                    throw new Error(event.error);
+                }
+            }
+
+            throw new Error('Script stream ended unexpectedly');
+        } catch (error: unknown) {
+            if (controller.signal.aborted) {
+                // A newer generation may already own the state
+                if (controllerRef.current === controller) {
+                    setState((prev) => ({ ...prev, status: 'cancelled' }));
+                }
+                return { scripts, complete: false };
+            }
+            const message = error instanceof Error ? error.message : 'Failed to generate scripts';
+            setState((prev) => ({ ...prev, status: 'error', error: message }));
+            throw error;
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+        }
+    }, []);
+
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort();
+    }, []);
+
+    return { ...state, generate, cancel };
+}
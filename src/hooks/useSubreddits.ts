@@ -0,0 +1,45 @@
+/**
+ * React Query hooks for community discovery and subreddit profile pages.
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { SubredditProfileResponse, SubredditSearchResponse, TimeRange } from '@/types';
+
+async function fetchSubredditSearch(query: string): Promise<SubredditSearchResponse> {
+    const { data } = await axios.get<SubredditSearchResponse>('/api/subreddits', {
+        params: { q: query },
+    });
+    return data;
+}
+
+async function fetchSubredditProfile(name: string, sort: 'hot' | 'top', time: TimeRange): Promise<SubredditProfileResponse> {
+    const { data } = await axios.get<SubredditProfileResponse>(`/api/subreddits/${encodeURIComponent(name)}`, {
+        params: { sort, time: sort === 'top' ? time : undefined },
+    });
+    return data;
+}
+
+export function useSubredditSearch(query: string) {
+    return useQuery<SubredditSearchResponse>({
+        queryKey: ['subreddit-search', query],
+        queryFn: () => fetchSubredditSearch(query),
+        enabled: query.length >= 2,
+        staleTime: 60 * 60 * 1000, // 1 hour — matches server cache TTL
+        retry: 1,
+    });
+}
+
+export function useSubredditProfile(name: string, sort: 'hot' | 'top', time: TimeRange) {
+    return useQuery<SubredditProfileResponse>({
+        queryKey: ['subreddit-profile', name, sort, sort === 'top' ? time : null],
+        queryFn: () => fetchSubredditProfile(name, sort, time),
+        enabled: name.length > 0,
+        staleTime: 15 * 60 * 1000, // 15 minutes — matches server cache TTL
+        // Missing, private or banned communities won't appear on retry
+        retry: (failureCount, error) =>
+            failureCount < 1 && !(axios.isAxiosError(error) && [403, 404].includes(error.response?.status ?? 0)),
+    });
+}
@@ -1,56 +1,27 @@
-import { ContentIdea, RedditPost, VideoScripts } from '@/types';
+import { ContentIdea, LlmOutputIssue, QueryIntent, RedditPost, ScriptStreamEvent, ScriptVariation, VideoScripts } from '@/types';
+import { LlmMessage, LlmTask, RateLimitInfo, resolveLlm } from '@/lib/llm';
+import {
+    hooksSchema,
+    ideasSchema,
+    LlmSchema,
+    parseModelJson,
+    queryExpansionSchema,
+    scoresSchema,
+    scriptsSchema,
+} from '@/lib/llm-schema';
 import {
     DEFAULT_HOOKS_PROMPT,
     DEFAULT_IDEAS_PROMPT,
     DEFAULT_SCRIPTS_PROMPT,
 } from '@/lib/promptStore';
 
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
 const DEFAULT_RATE_LIMIT: RateLimitInfo = { remaining: 0, limit: 0, resetInSeconds: 0 };
+const LLM_TIMEOUT_MS = 12000;
+// Streams have no overall deadline, only a limit on silence between chunks
+const LLM_STREAM_IDLE_TIMEOUT_MS = 15000;
+const SCRIPT_VARIATIONS: ScriptVariation[] = ['variation1', 'variation2'];
 
-type GroqMessage = { role: 'system' | 'user' | 'assistant'; content: string };
-
-interface GroqResponse {
-    choices?: Array<{
-        message?: {
-            content?: string;
-        };
-    }>;
-}
-
-class GroqHttpError extends Error {
-    status: number;
-    body: string;
-
-    constructor(status: number, body: string) {
-        super(`Groq API error ${status}: ${body}`);
-        this.status = status;
-        this.body = body;
-    }
-}
-
-export interface RateLimitInfo {
-    remaining: number;
-    limit: number;
-    resetInSeconds: number;
-}
-
-function safeParseJSON<T>(content: string, fallback: T): T {
-    try {
-        let cleaned = content.replace(/```(?:json)?|```/g, '');
-        const firstOpen = cleaned.search(/[{[]/);
-        const lastClose = cleaned.search(/[}\]][^}\]]*$/);
-
-        if (firstOpen !== -1 && lastClose !== -1) {
-            cleaned = cleaned.substring(firstOpen, lastClose + 1);
-        }
-
-        return JSON.parse(cleaned) as T;
-    } catch {
-        console.warn('Failed to parse AI JSON response. Raw content:', content);
-        return fallback;
-    }
-}
+export type { RateLimitInfo };
 
 function sanitizePostContent(text: string): string {
     if (!text) return '';
@@ -76,35 +47,6 @@ function sanitizePostContent(text: string): string {
     return sanitized.trim();
 }
 
-function asStringArray(value: unknown): string[] {
-    if (!Array.isArray(value)) return [];
-    return value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0);
-}
-
-function asRecord(value: unknown): Record<string, unknown> {
-    if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
-    return value as Record<string, unknown>;
-}
-
-function normalizeContentIdeas(value: unknown): ContentIdea[] {
-    const record = asRecord(value);
-    const candidate = Array.isArray(value) ? value : Array.isArray(record.ideas) ? record.ideas : [];
-
-    return candidate
-        .map((item) => {
-            const obj = asRecord(item);
-            const hook = typeof obj.hook === 'string' ? obj.hook.trim() : '';
-            const concept = typeof obj.concept === 'string' ? obj.concept.trim() : '';
-            const why = typeof obj.why === 'string' ? obj.why.trim() : '';
-            const cta = typeof obj.cta === 'string' ? obj.cta.trim() : '';
-            const hooks = asStringArray(obj.hooks);
-
-            if (!hook || !concept) return null;
-            return { hook, concept, why, cta, hooks };
-        })
-        .filter((idea): idea is ContentIdea => idea !== null);
-}
-
 function applyPromptTemplate(template: string, values: Record<string, string>): string {
     return Object.entries(values).reduce(
         (result, [key, value]) => result.replaceAll(`{{${key}}}`, value),
@@ -112,100 +54,150 @@ function applyPromptTemplate(template: string, values: Record<string, string>):
     );
 }
 
-function parseRateLimitHeader(value: string | null, fallback: number): number {
-    const parsed = Number.parseInt(value ?? '', 10);
-    return Number.isFinite(parsed) ? parsed : fallback;
-}
-
 function getErrorMessage(error: unknown): string {
     return error instanceof Error ? error.message : String(error);
 }
 
-function isInvalidGroqApiKeyError(error: unknown): boolean {
-    if (!(error instanceof GroqHttpError)) return false;
-    if (error.status !== 401) return false;
-    const body = error.body.toLowerCase();
-    return body.includes('invalid_api_key') || body.includes('invalid api key');
-}
-
-async function callGroq(
-    messages: GroqMessage[],
+/**
+ * Runs a chat completion on the provider and model configured for `task`.
+ */
+async function callLlm(
+    task: LlmTask,
+    messages: LlmMessage[],
     temperature = 0.7,
     apiKeyOverride?: string
 ): Promise<{ content: string; rateLimit: RateLimitInfo }> {
-    const envApiKey = process.env.GROQ_API_KEY;
-    const primaryApiKey = apiKeyOverride || envApiKey;
-    if (!primaryApiKey) throw new Error('Missing GROQ_API_KEY');
-
+    const { provider, model } = resolveLlm(task);
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 12000);
-    const runWithKey = async (apiKey: string): Promise<{ content: string; rateLimit: RateLimitInfo }> => {
-        const res = await fetch(GROQ_API_URL, {
-            method: 'POST',
-            cache: 'no-store',
+    const timeoutId = setTimeout(() => controller.abort(), LLM_TIMEOUT_MS);
+
+    try {
+        return await provider.complete({
+            task,
+            model,
+            messages,
+            temperature,
+            apiKeyOverride,
             signal: controller.signal,
-            headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${apiKey}`,
-            },
-            body: JSON.stringify({
-                model: 'llama-3.3-70b-versatile',
-                messages,
-                temperature,
-                response_format: { type: 'json_object' },
-            }),
         });
+    } catch (error: unknown) {
+        throw new Error(getErrorMessage(error));
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
 
-        const rateLimit: RateLimitInfo = {
-            remaining: parseRateLimitHeader(res.headers.get('x-ratelimit-remaining-requests'), 0),
-            limit: parseRateLimitHeader(res.headers.get('x-ratelimit-limit-requests'), 30),
-            resetInSeconds: parseRateLimitHeader(res.headers.get('x-ratelimit-reset-requests'), 60),
-        };
+type OutputCheck<T> =
+    | { ok: true; value: T }
+    | { ok: false; errors: string[]; parsed?: unknown };
 
-        if (!res.ok) {
-            const errBody = await res.text();
-            throw new GroqHttpError(res.status, errBody);
-        }
+function checkOutput<T>(task: LlmTask, content: string, schema: LlmSchema<T>): OutputCheck<T> {
+    const json = parseModelJson(content);
+    if (!json.ok) return { ok: false, errors: [json.error] };
 
-        const data = (await res.json()) as GroqResponse;
-        const content = data.choices?.[0]?.message?.content ?? '';
-        return { content, rateLimit };
-    };
+    const result = schema.validate(json.value);
+    if (!result.ok) return { ok: false, errors: result.errors, parsed: json.value };
+    if (result.warnings.length > 0) {
+        console.warn(`LLM ${task} output accepted with warnings:`, result.warnings);
+    }
+    return { ok: true, value: result.value };
+}
 
+function buildRepairPrompt(errors: string[], shape: string): string {
+    return `Your previous response could not be used:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Reply again with only the corrected JSON, in exactly this shape:
+${shape}`;
+}
+
+/**
+ * Validates a completion against `schema`. On failure, sends the errors back to the
+ * model once and asks for corrected JSON. If that still fails, returns whatever the
+ * schema can salvage (or `fallback`) along with an issue describing what went wrong.
+ */
+async function repairOutput<T>(
+    task: LlmTask,
+    messages: LlmMessage[],
+    first: { content: string; rateLimit: RateLimitInfo },
+    schema: LlmSchema<T>,
+    fallback: T,
+    apiKeyOverride?: string
+): Promise<{ value: T; rateLimit: RateLimitInfo; issue?: LlmOutputIssue }> {
+    const firstCheck = checkOutput(task, first.content, schema);
+    if (firstCheck.ok) return { value: firstCheck.value, rateLimit: first.rateLimit };
+
+    console.warn(`LLM ${task} output failed validation, requesting a repair:`, firstCheck.errors);
+    const salvage = (check: { parsed?: unknown }) =>
+        check.parsed !== undefined ? schema.salvage(check.parsed) : fallback;
+
+    let second: { content: string; rateLimit: RateLimitInfo };
     try {
-        try {
-            return await runWithKey(primaryApiKey);
-        } catch (error: unknown) {
-            const canFallbackToEnvKey =
-                Boolean(apiKeyOverride) &&
-                Boolean(envApiKey) &&
-                envApiKey !== apiKeyOverride &&
-                isInvalidGroqApiKeyError(error);
-
-            if (canFallbackToEnvKey && envApiKey) {
-                console.warn('Client-provided GROQ key rejected; retrying with server GROQ key.');
-                return await runWithKey(envApiKey);
-            }
-            throw error;
-        }
+        second = await callLlm(
+            task,
+            [
+                ...messages,
+                { role: 'assistant', content: first.content },
+                { role: 'user', content: buildRepairPrompt(firstCheck.errors, schema.shape) },
+            ],
+            0.2,
+            apiKeyOverride
+        );
     } catch (error: unknown) {
-        throw new Error(getErrorMessage(error));
-    } finally {
-        clearTimeout(timeoutId);
+        return {
+            value: salvage(firstCheck),
+            rateLimit: first.rateLimit,
+            issue: { task, errors: [...firstCheck.errors, `Repair request failed: ${getErrorMessage(error)}`], repaired: false },
+        };
     }
+
+    const secondCheck = checkOutput(task, second.content, schema);
+    if (secondCheck.ok) {
+        return { value: secondCheck.value, rateLimit: second.rateLimit, issue: { task, errors: firstCheck.errors, repaired: true } };
+    }
+
+    console.error(`LLM ${task} output still invalid after repair:`, secondCheck.errors);
+    return {
+        value: secondCheck.parsed !== undefined ? salvage(secondCheck) : salvage(firstCheck),
+        rateLimit: second.rateLimit,
+        issue: { task, errors: secondCheck.errors, repaired: false },
+    };
+}
+
+/**
+ * Runs a completion for `task` and validates it against `schema`, with one repair retry.
+ */
+async function callLlmValidated<T>(
+    task: LlmTask,
+    messages: LlmMessage[],
+    temperature: number,
+    apiKeyOverride: string | undefined,
+    schema: LlmSchema<T>,
+    fallback: T
+): Promise<{ value: T; rateLimit: RateLimitInfo; issue?: LlmOutputIssue }> {
+    const first = await callLlm(task, messages, temperature, apiKeyOverride);
+    return repairOutput(task, messages, first, schema, fallback, apiKeyOverride);
 }
 
 export async function generateSearchQueries(
     userQuery: string,
     apiKeyOverride?: string
-): Promise<{ queries: string[]; rateLimit: RateLimitInfo }> {
+): Promise<{ queries: string[]; intent: QueryIntent; rateLimit: RateLimitInfo; issue?: LlmOutputIssue }> {
     const fallbackQuery = sanitizePostContent(userQuery) || userQuery;
     const prompt = `
-You are a Reddit Search Expert. Translate this query into 3 boolean search queries.
+You are a Reddit Search Expert. Classify the intent of this query and translate it into 3 boolean search queries.
 User Query: "${fallbackQuery}"
 
+Intent is one of:
+- "how-to": wants instructions, guides or recommendations
+- "problem": describes something going wrong and wants fixes or shared frustration
+- "story": wants personal experiences or anecdotes
+- "trend": wants what's new, popular or changing
+- "unknown": none of the above
+
 Output JSON format:
 {
+  "intent": "how-to",
   "queries": [
     "Broad query with OR",
     "Specific field target query",
@@ -214,20 +206,20 @@ Output JSON format:
 }
 `;
 
-    const { content, rateLimit } = await callGroq(
+    const { value, rateLimit, issue } = await callLlmValidated(
+        'query-expansion',
         [
             { role: 'system', content: 'You are a Reddit Search Expert.' },
             { role: 'user', content: prompt },
         ],
         0.5,
-        apiKeyOverride
+        apiKeyOverride,
+        queryExpansionSchema,
+        { queries: [fallbackQuery], intent: 'unknown' as QueryIntent }
     );
+    const finalQueries = value.queries.length > 0 ? value.queries : [fallbackQuery];
 
-    const parsed = safeParseJSON<{ queries?: unknown }>(content, { queries: [fallbackQuery] });
-    const queries = asStringArray(parsed.queries);
-    const finalQueries = queries.length > 0 ? queries : [fallbackQuery];
-
-    return { queries: finalQueries.slice(0, 3), rateLimit };
+    return { queries: finalQueries.slice(0, 3), intent: value.intent, rateLimit, issue };
 }
 
 export async function generateContentIdeas(
@@ -235,95 +227,192 @@ export async function generateContentIdeas(
     discussions: string[],
     ideasPrompt?: string,
     apiKeyOverride?: string
-): Promise<{ ideas: ContentIdea[]; rateLimit: RateLimitInfo }> {
+): Promise<{ ideas: ContentIdea[]; rateLimit: RateLimitInfo; issue?: LlmOutputIssue }> {
     const promptTemplate = ideasPrompt || DEFAULT_IDEAS_PROMPT;
     const prompt = applyPromptTemplate(promptTemplate, {
         SUBREDDIT: sanitizePostContent(subreddit),
         DISCUSSIONS: discussions.map((d) => sanitizePostContent(d)).join('\n\n---\n\n'),
     });
 
-    const { content, rateLimit } = await callGroq(
+    const { value: ideas, rateLimit, issue } = await callLlmValidated(
+        'ideas',
         [
             { role: 'system', content: 'You generate short-form video content ideas from Reddit discussions.' },
             { role: 'user', content: prompt },
         ],
         0.6,
-        apiKeyOverride
+        apiKeyOverride,
+        ideasSchema,
+        []
     );
 
-    const parsed = safeParseJSON<unknown>(content, []);
-    const ideas = normalizeContentIdeas(parsed);
-
-    return { ideas: ideas.slice(0, 5), rateLimit };
+    return { ideas: ideas.slice(0, 5), rateLimit, issue };
 }
 
 export async function generateViralHooks(
     discussions: string[],
     hooksPrompt?: string,
     apiKeyOverride?: string
-): Promise<{ hooks: string[]; rateLimit: RateLimitInfo }> {
+): Promise<{ hooks: string[]; rateLimit: RateLimitInfo; issue?: LlmOutputIssue }> {
     const promptTemplate = hooksPrompt || DEFAULT_HOOKS_PROMPT;
     const prompt = applyPromptTemplate(promptTemplate, {
         DISCUSSIONS: discussions.map((d) => sanitizePostContent(d)).join('\n\n---\n\n'),
     });
 
-    const { content, rateLimit } = await callGroq(
+    const { value: hooks, rateLimit, issue } = await callLlmValidated(
+        'hooks',
         [
             { role: 'system', content: 'You write high-retention social video hooks.' },
             { role: 'user', content: prompt },
         ],
         0.7,
-        apiKeyOverride
+        apiKeyOverride,
+        hooksSchema,
+        []
     );
 
-    const parsed = safeParseJSON<{ hooks?: unknown } | unknown[]>(content, []);
-    const candidate = Array.isArray(parsed) ? parsed : parsed.hooks;
-    const hooks = asStringArray(candidate).slice(0, 10);
-
-    return { hooks, rateLimit };
+    return { hooks: hooks.slice(0, 10), rateLimit, issue };
 }
 
-export async function generateVideoScripts(
-    hook: string,
-    concept: string,
-    scriptsPrompt?: string,
-    apiKeyOverride?: string
-): Promise<{ scripts: VideoScripts; rateLimit: RateLimitInfo }> {
+function buildScriptMessages(hook: string, concept: string, scriptsPrompt?: string): LlmMessage[] {
     const promptTemplate = scriptsPrompt || DEFAULT_SCRIPTS_PROMPT;
     const prompt = applyPromptTemplate(promptTemplate, {
         HOOK: sanitizePostContent(hook),
         CONCEPT: sanitizePostContent(concept),
     });
 
-    const { content, rateLimit } = await callGroq(
-        [
-            { role: 'system', content: 'You write short-form scripts optimized for retention.' },
-            { role: 'user', content: prompt },
-        ],
+    return [
+        { role: 'system', content: 'You write short-form scripts optimized for retention.' },
+        { role: 'user', content: prompt },
+    ];
+}
+
+/**
+ * Decodes the (possibly unfinished) string value of `field` from a partial JSON
+ * document. Stops before an incomplete escape so every returned prefix is final.
+ */
+function readPartialJsonString(buffer: string, field: string): string | null {
+    const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(buffer);
+    if (!match) return null;
+
+    let result = '';
+    for (let i = match.index + match[0].length; i < buffer.length; i++) {
+        const char = buffer[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            result += char;
+            continue;
+        }
+
+        const next = buffer[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = buffer.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            result += String.fromCharCode(Number.parseInt(hex, 16));
+            i += 5;
+            continue;
+        }
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+        result += escapes[next] ?? next;
+        i++;
+    }
+    return result;
+}
+
+export async function generateVideoScripts(
+    hook: string,
+    concept: string,
+    scriptsPrompt?: string,
+    apiKeyOverride?: string
+): Promise<{ scripts: VideoScripts; rateLimit: RateLimitInfo; issue?: LlmOutputIssue }> {
+    const { value: scripts, rateLimit, issue } = await callLlmValidated(
+        'scripts',
+        buildScriptMessages(hook, concept, scriptsPrompt),
         0.7,
-        apiKeyOverride
+        apiKeyOverride,
+        scriptsSchema,
+        { variation1: '', variation2: '' }
     );
 
-    const parsed = safeParseJSON<Record<string, unknown>>(content, {});
-    const scripts: VideoScripts = {
-        variation1:
-            typeof parsed.variation1 === 'string' && parsed.variation1.trim().length > 0
-                ? parsed.variation1
-                : '',
-        variation2:
-            typeof parsed.variation2 === 'string' && parsed.variation2.trim().length > 0
-                ? parsed.variation2
-                : '',
-    };
+    return { scripts, rateLimit, issue };
+}
+
+/**
+ * Streaming variant of generateVideoScripts. Yields the text of each variation
+ * as it's generated, then a final `done` event with the complete scripts.
+ * Invalid final output gets the same (non-streamed) repair retry as generateVideoScripts.
+ * Aborting `signal` stops generation upstream.
+ */
+export async function* streamVideoScripts(
+    hook: string,
+    concept: string,
+    scriptsPrompt?: string,
+    apiKeyOverride?: string,
+    signal?: AbortSignal
+): AsyncGenerator<ScriptStreamEvent> {
+    const { provider, model } = resolveLlm('scripts');
+    const messages = buildScriptMessages(hook, concept, scriptsPrompt);
+    const idle = new AbortController();
+    const combined = signal ? AbortSignal.any([signal, idle.signal]) : idle.signal;
+    let idleTimer = setTimeout(() => idle.abort(), LLM_STREAM_IDLE_TIMEOUT_MS);
+
+    try {
+        const { chunks, rateLimit } = await provider.stream({
+            task: 'scripts',
+            model,
+            messages,
+            temperature: 0.7,
+            apiKeyOverride,
+            signal: combined,
+        });
+
+        let buffer = '';
+        const emitted: Record<ScriptVariation, number> = { variation1: 0, variation2: 0 };
 
-    return { scripts, rateLimit };
+        for await (const chunk of chunks) {
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(() => idle.abort(), LLM_STREAM_IDLE_TIMEOUT_MS);
+            buffer += chunk;
+
+            // Only send the newly decoded part of each variation
+            for (const variation of SCRIPT_VARIATIONS) {
+                const text = readPartialJsonString(buffer, variation);
+                if (text && text.length > emitted[variation]) {
+                    yield { type: 'delta', variation, text: text.slice(emitted[variation]) };
+                    emitted[variation] = text.length;
+                }
+            }
+        }
+
+        clearTimeout(idleTimer);
+        const { value: scripts, rateLimit: finalRateLimit, issue } = await repairOutput(
+            'scripts',
+            messages,
+            { content: buffer, rateLimit },
+            scriptsSchema,
+            { variation1: '', variation2: '' },
+            apiKeyOverride
+        );
+        yield { type: 'done', scripts, rateLimit: finalRateLimit, issue };
+    } catch (error: unknown) {
+        if (idle.signal.aborted) throw new Error('Script generation stalled; no output for 15 seconds');
+        throw new Error(getErrorMessage(error));
+    } finally {
+        clearTimeout(idleTimer);
+    }
 }
 
+/**
+ * Scores posts for relevance to `userQuery` in parallel batches of 10.
+ * `onBatchScored` is called as each batch finishes, so callers can show partial results.
+ */
 export async function filterPostsByContext(
     posts: RedditPost[],
     userQuery: string,
-    apiKeyOverride?: string
-): Promise<{ filteredPosts: RedditPost[]; rateLimit: RateLimitInfo }> {
+    apiKeyOverride?: string,
+    onBatchScored?: (scored: RedditPost[], batchIndex: number, totalBatches: number) => void
+): Promise<{ filteredPosts: RedditPost[]; rateLimit: RateLimitInfo; issues: LlmOutputIssue[] }> {
     const cleanQuery = sanitizePostContent(userQuery);
     const batchSize = 10;
     const batches: RedditPost[][] = [];
@@ -334,9 +423,10 @@ export async function filterPostsByContext(
 
     let latestRateLimit = DEFAULT_RATE_LIMIT;
     const scoreMap: Record<string, number> = {};
+    const issues: LlmOutputIssue[] = [];
 
     const results = await Promise.allSettled(
-        batches.map(async (batch) => {
+        batches.map(async (batch, batchIndex) => {
             const simplifiedPosts = batch.map((post) => ({
                 id: post.id,
                 title: sanitizePostContent(post.title),
@@ -353,23 +443,24 @@ Posts:
 ${JSON.stringify(simplifiedPosts)}
 `;
 
-            const { content, rateLimit } = await callGroq(
+            const { value: parsedScores, rateLimit, issue } = await callLlmValidated(
+                'scoring',
                 [
                     { role: 'system', content: 'You evaluate content relevance and viral potential.' },
                     { role: 'user', content: prompt },
                 ],
                 0.3,
-                apiKeyOverride
+                apiKeyOverride,
+                scoresSchema(batch.map((post) => post.id)),
+                {}
             );
+            if (issue) issues.push(issue);
 
-            const rawScores = safeParseJSON<Record<string, unknown>>(content, {});
-            const parsedScores: Record<string, number> = {};
-            for (const [id, value] of Object.entries(rawScores)) {
-                const numeric = typeof value === 'number' ? value : Number.parseFloat(String(value));
-                if (Number.isFinite(numeric)) {
-                    parsedScores[id] = Math.max(0, Math.min(10, numeric));
-                }
-            }
+            onBatchScored?.(
+                batch.map((post) => ({ ...post, relevanceScore: parsedScores[post.id] ?? 0 })),
+                batchIndex,
+                batches.length
+            );
 
             return { parsedScores, rateLimit };
         })
@@ -386,6 +477,11 @@ ${JSON.stringify(simplifiedPosts)}
         for (const post of batches[batchIndex]) {
             scoreMap[post.id] = 5;
         }
+        onBatchScored?.(
+            batches[batchIndex].map((post) => ({ ...post, relevanceScore: 5 })),
+            batchIndex,
+            batches.length
+        );
     });
 
     const filteredPosts = posts.map((post) => ({
@@ -393,5 +489,5 @@ ${JSON.stringify(simplifiedPosts)}
         relevanceScore: scoreMap[post.id] ?? 0,
     }));
 
-    return { filteredPosts, rateLimit: latestRateLimit };
+    return { filteredPosts, rateLimit: latestRateLimit, issues };
 }
@@ -0,0 +1,169 @@
+/**
+ * Author research helpers: username checks, where an account is active, and
+ * history patterns that suggest a low-quality, promotional or automated account.
+ * Signals are prompts for a closer look, not verdicts. Pure, so the table can use the name checks too.
+ */
+
+import { AuthorComment, AuthorProfile, AuthorSignal, AuthorSubredditActivity, RedditPost } from '@/types';
+
+// Reddit usernames: letters, digits, "_" and "-"; legacy accounts can be shorter than today's 3-char minimum
+const AUTHOR_NAME_PATTERN = /^[A-Za-z0-9_-]{1,20}$/;
+
+const DAY_SECONDS = 24 * 3600;
+const NEW_ACCOUNT_DAYS = 30;
+const LOW_KARMA = 100;
+const HIGH_VOLUME_PER_DAY = 50;
+const REPETITIVE_SHARE = 0.3;
+const SINGLE_DOMAIN_SHARE = 0.6;
+const SINGLE_SUBREDDIT_SHARE = 0.9;
+
+// Reddit-hosted media and threads say nothing about where an account sends traffic
+const REDDIT_HOSTS = /(^|\.)(reddit\.com|redd\.it|redditmedia\.com|imgur\.com)$/i;
+
+export function isValidAuthorName(name: string): boolean {
+    return AUTHOR_NAME_PATTERN.test(name);
+}
+
+/**
+ * True for placeholder authors ("[deleted]", "deleted", the mapper's fallback) with no profile to open.
+ */
+export function isDeletedAuthor(name: string | undefined): boolean {
+    return !name || name === 'deleted' || name === '[deleted]';
+}
+
+/**
+ * Strips the "u/" / "/user/" prefixes people paste with usernames.
+ */
+export function cleanAuthorName(raw: string): string {
+    return raw.trim().replace(/^\/?u(ser)?\//i, '').replace(/\/+$/, '');
+}
+
+/**
+ * Subreddits the account posts and comments in most, by total activity.
+ */
+export function summarizeSubredditActivity(
+    posts: RedditPost[],
+    comments: AuthorComment[],
+    limit: number = 8
+): AuthorSubredditActivity[] {
+    const bySubreddit = new Map<string, AuthorSubredditActivity>();
+    const entry = (subreddit: string) => {
+        const key = subreddit.toLowerCase();
+        const existing = bySubreddit.get(key) ?? { subreddit, posts: 0, comments: 0, score: 0 };
+        bySubreddit.set(key, existing);
+        return existing;
+    };
+
+    for (const post of posts) {
+        const activity = entry(post.subreddit);
+        activity.posts++;
+        activity.score += post.upvotes;
+    }
+    for (const comment of comments) {
+        if (!comment.subreddit) continue;
+        const activity = entry(comment.subreddit);
+        activity.comments++;
+        activity.score += comment.score;
+    }
+
+    return Array.from(bySubreddit.values())
+        .sort((a, b) => (b.posts + b.comments) - (a.posts + a.comments) || b.score - a.score)
+        .slice(0, limit);
+}
+
+function linkDomain(post: RedditPost): string | null {
+    try {
+        const host = new URL(post.link).hostname.toLowerCase().replace(/^www\./, '');
+        return REDDIT_HOSTS.test(host) ? null : host;
+    } catch {
+        return null;
+    }
+}
+
+function normalizeBody(body: string): string {
+    return body.toLowerCase().replace(/https?:\/\/\S+/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Flags history patterns common to spam, sockpuppet and bot accounts.
+ * `posts` and `comments` are the sampled history (top posts, recent comments).
+ */
+export function authorSignals(
+    profile: AuthorProfile,
+    posts: RedditPost[],
+    comments: AuthorComment[],
+    now: number = Date.now() / 1000
+): AuthorSignal[] {
+    if (profile.isSuspended) {
+        return [{ kind: 'suspended', severity: 'warning', message: 'Account is suspended by Reddit' }];
+    }
+
+    const signals: AuthorSignal[] = [];
+
+    const ageDays = Math.floor((now - profile.created_utc) / DAY_SECONDS);
+    if (ageDays < NEW_ACCOUNT_DAYS) {
+        signals.push({ kind: 'new-account', severity: 'warning', message: `Account is only ${ageDays} day${ageDays === 1 ? '' : 's'} old` });
+    }
+
+    if (profile.commentKarma < 0) {
+        signals.push({ kind: 'low-karma', severity: 'warning', message: 'Negative comment karma' });
+    } else if (profile.totalKarma < LOW_KARMA) {
+        signals.push({ kind: 'low-karma', severity: 'info', message: `Only ${profile.totalKarma} karma` });
+    }
+
+    // Comment rate over the sampled window (needs enough comments to mean anything)
+    if (comments.length >= 20) {
+        const times = comments.map((comment) => comment.created_utc).filter(Boolean);
+        const spanDays = Math.max((Math.max(...times) - Math.min(...times)) / DAY_SECONDS, 1 / 24);
+        const perDay = comments.length / spanDays;
+        if (perDay > HIGH_VOLUME_PER_DAY) {
+            signals.push({
+                kind: 'high-volume',
+                severity: 'warning',
+                message: `About ${Math.round(perDay)} comments a day in recent history`,
+            });
+        }
+    }
+
+    // The same text pasted across threads
+    const bodies = comments.map((comment) => normalizeBody(comment.body)).filter((body) => body.length >= 20);
+    if (bodies.length >= 5) {
+        const counts = new Map<string, number>();
+        for (const body of bodies) counts.set(body, (counts.get(body) ?? 0) + 1);
+        const repeated = Array.from(counts.values()).filter((count) => count > 1).reduce((sum, count) => sum + count, 0);
+        if (repeated / bodies.length >= REPETITIVE_SHARE) {
+            signals.push({
+                kind: 'repetitive',
+                severity: 'warning',
+                message: `${Math.round((repeated / bodies.length) * 100)}% of recent comments repeat the same text`,
+            });
+        }
+    }
+
+    // Link posts that mostly point at one site (self-promotion)
+    const domains = posts.map(linkDomain).filter((domain): domain is string => domain !== null);
+    if (domains.length >= 5) {
+        const counts = new Map<string, number>();
+        for (const domain of domains) counts.set(domain, (counts.get(domain) ?? 0) + 1);
+        const [topDomain, topCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+        if (topCount / domains.length >= SINGLE_DOMAIN_SHARE) {
+            signals.push({
+                kind: 'single-domain',
+                severity: 'warning',
+                message: `${Math.round((topCount / domains.length) * 100)}% of link posts point to ${topDomain}`,
+            });
+        }
+    }
+
+    const activity = summarizeSubredditActivity(posts, comments, 1)[0];
+    const total = posts.length + comments.length;
+    if (activity && total >= 10 && (activity.posts + activity.comments) / total >= SINGLE_SUBREDDIT_SHARE) {
+        signals.push({
+            kind: 'single-subreddit',
+            severity: 'info',
+            message: `Almost all activity is in r/${activity.subreddit}`,
+        });
+    }
+
+    return signals;
+}
@@ -0,0 +1,432 @@
+/**
+ * Cache storage backends.
+ * Every backend implements CacheStore; `cache.ts` picks one from the CACHE_BACKEND env var.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheKeyInfo } from '@/types';
+
+export type CacheEntry = {
+    value: unknown;
+    expiresAt: number;
+};
+
+export interface CacheStore {
+    readonly name: string;
+    get(key: string): Promise<unknown | null>;
+    set(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+    /** Batch read; results line up with `keys`, null for misses. */
+    getMany(keys: string[]): Promise<Array<unknown | null>>;
+    /** Batch write with one TTL for every entry. */
+    setMany(entries: Array<[string, unknown]>, ttlSeconds: number): Promise<void>;
+    delete(key: string): Promise<void>;
+    size(): Promise<number>;
+    /** Lists live keys starting with `prefix`, with TTL remaining and approximate size. */
+    list(prefix: string, limit: number): Promise<CacheKeyInfo[]>;
+}
+
+function approximateSize(value: unknown): number {
+    try {
+        return JSON.stringify(value)?.length ?? 0;
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * In-process store with expiry and a least-recently-used size cap.
+ * Map iteration order doubles as the LRU order: reads move a key to the end.
+ */
+export class MemoryCacheStore implements CacheStore {
+    readonly name: string = 'memory';
+    protected entries = new Map<string, CacheEntry>();
+    private readonly maxEntries: number;
+
+    constructor(maxEntries: number) {
+        this.maxEntries = maxEntries;
+
+        // Simple cleanup to drop expired entries between reads
+        setInterval(() => this.prune(), 60000 * 5); // Run every 5 mins
+    }
+
+    async get(key: string): Promise<unknown | null> {
+        const entry = this.entries.get(key);
+        if (!entry) return null;
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+        // Refresh recency
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+        this.evict();
+    }
+
+    async getMany(keys: string[]): Promise<Array<unknown | null>> {
+        return Promise.all(keys.map((key) => this.get(key)));
+    }
+
+    async setMany(entries: Array<[string, unknown]>, ttlSeconds: number): Promise<void> {
+        for (const [key, value] of entries) await this.set(key, value, ttlSeconds);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async size(): Promise<number> {
+        return this.entries.size;
+    }
+
+    async list(prefix: string, limit: number): Promise<CacheKeyInfo[]> {
+        const now = Date.now();
+        const result: CacheKeyInfo[] = [];
+        for (const [key, entry] of this.entries.entries()) {
+            if (result.length >= limit) break;
+            if (!key.startsWith(prefix) || entry.expiresAt <= now) continue;
+            result.push({
+                key,
+                ttlRemaining: Math.ceil((entry.expiresAt - now) / 1000),
+                size: approximateSize(entry.value),
+            });
+        }
+        return result;
+    }
+
+    protected prune(): boolean {
+        const now = Date.now();
+        let changed = false;
+        for (const [key, entry] of this.entries.entries()) {
+            if (entry.expiresAt < now) {
+                this.entries.delete(key);
+                changed = true;
+            }
+        }
+        return changed;
+    }
+
+    protected evict(): void {
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+        }
+    }
+}
+
+/**
+ * Memory store persisted to a JSON file so entries survive restarts on a single host.
+ * Loads lazily on first access and writes back (debounced) after changes.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+    readonly name = 'file';
+    private readonly filePath: string;
+    private loaded: Promise<void> | null = null;
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(filePath: string, maxEntries: number) {
+        super(maxEntries);
+        this.filePath = filePath;
+    }
+
+    async get(key: string): Promise<unknown | null> {
+        await this.load();
+        return super.get(key);
+    }
+
+    async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+        await this.load();
+        await super.set(key, value, ttlSeconds);
+        this.scheduleFlush();
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.load();
+        await super.delete(key);
+        this.scheduleFlush();
+    }
+
+    async size(): Promise<number> {
+        await this.load();
+        return super.size();
+    }
+
+    async list(prefix: string, limit: number): Promise<CacheKeyInfo[]> {
+        await this.load();
+        return super.list(prefix, limit);
+    }
+
+    protected prune(): boolean {
+        const changed = super.prune();
+        if (changed) this.scheduleFlush();
+        return changed;
+    }
+
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = (async () => {
+                try {
+                    const raw = await fs.readFile(this.filePath, 'utf8');
+                    const stored = JSON.parse(raw) as Array<[string, CacheEntry]>;
+                    const now = Date.now();
+                    for (const [key, entry] of stored) {
+                        if (entry && entry.expiresAt > now) this.entries.set(key, entry);
+                    }
+                    // The file may have been written under a larger CACHE_MAX_ENTRIES; it's in LRU order, so the oldest go
+                    this.evict();
+                } catch (error) {
+                    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                        console.warn('Cache file load failed, starting empty:', error);
+                    }
+                }
+            })();
+        }
+        return this.loaded;
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush().catch((error) => console.warn('Cache file write failed:', error));
+        }, 1000);
+    }
+
+    private async flush(): Promise<void> {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(Array.from(this.entries.entries())));
+        // Rename is atomic, so a crash mid-write never leaves a truncated cache file
+        await fs.rename(tmpPath, this.filePath);
+    }
+}
+
+/**
+ * Routes whole namespaces to their own stores so high-volume entries (like embeddings)
+ * get their own size cap instead of evicting everything else from the main LRU.
+ * Keys outside the routed namespaces go to `main`.
+ */
+export class PartitionedCacheStore implements CacheStore {
+    readonly name: string;
+    private readonly main: CacheStore;
+    private readonly partitions: Map<string, CacheStore>;
+
+    constructor(main: CacheStore, partitions: Record<string, CacheStore>) {
+        this.name = main.name;
+        this.main = main;
+        this.partitions = new Map(Object.entries(partitions));
+    }
+
+    async get(key: string): Promise<unknown | null> {
+        return this.storeFor(key).get(key);
+    }
+
+    async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+        await this.storeFor(key).set(key, value, ttlSeconds);
+    }
+
+    async getMany(keys: string[]): Promise<Array<unknown | null>> {
+        const values: Array<unknown | null> = keys.map(() => null);
+        await Promise.all(
+            Array.from(this.groupByStore(keys.map((key, index) => ({ key, index })), ({ key }) => key)).map(
+                async ([store, group]) => {
+                    const results = await store.getMany(group.map(({ key }) => key));
+                    group.forEach(({ index }, i) => {
+                        values[index] = results[i];
+                    });
+                }
+            )
+        );
+        return values;
+    }
+
+    async setMany(entries: Array<[string, unknown]>, ttlSeconds: number): Promise<void> {
+        await Promise.all(
+            Array.from(this.groupByStore(entries, ([key]) => key)).map(([store, group]) => store.setMany(group, ttlSeconds))
+        );
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.storeFor(key).delete(key);
+    }
+
+    async size(): Promise<number> {
+        const sizes = await Promise.all(this.stores().map((store) => store.size()));
+        return sizes.reduce((sum, size) => sum + size, 0);
+    }
+
+    async list(prefix: string, limit: number): Promise<CacheKeyInfo[]> {
+        const result: CacheKeyInfo[] = [];
+        for (const store of this.stores()) {
+            if (result.length >= limit) break;
+            result.push(...(await store.list(prefix, limit - result.length)));
+        }
+        return result;
+    }
+
+    private storeFor(key: string): CacheStore {
+        return this.partitions.get(key.split(':')[0]) ?? this.main;
+    }
+
+    private stores(): CacheStore[] {
+        return [this.main, ...this.partitions.values()];
+    }
+
+    private groupByStore<T>(items: T[], keyOf: (item: T) => string): Map<CacheStore, T[]> {
+        const groups = new Map<CacheStore, T[]>();
+        for (const item of items) {
+            const store = this.storeFor(keyOf(item));
+            groups.set(store, [...(groups.get(store) ?? []), item]);
+        }
+        return groups;
+    }
+}
+
+/**
+ * Escapes Redis glob characters so a prefix matches literally in SCAN MATCH.
+ */
+function escapeGlob(pattern: string): string {
+    return pattern.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Upstash Redis over its REST API. Reads fall back to, and writes are mirrored
+ * into, a local store so a Redis outage degrades to per-instance caching.
+ * The mirror is only read when Redis is unreachable: a Redis miss is a miss, so entries
+ * deleted or invalidated from another instance aren't served from this one's mirror.
+ * Writes wait for Redis, so a read right after a write sees the new value rather than a miss.
+ */
+export class UpstashCacheStore implements CacheStore {
+    readonly name = 'upstash';
+    private readonly url: string;
+    private readonly token: string;
+    private readonly fallback: CacheStore;
+
+    constructor(url: string, token: string, fallback: CacheStore) {
+        this.url = url;
+        this.token = token;
+        this.fallback = fallback;
+    }
+
+    async get(key: string): Promise<unknown | null> {
+        try {
+            const result = await this.command<string | null>(['GET', key]);
+            if (result) return JSON.parse(result);
+            await this.fallback.delete(key);
+            return null;
+        } catch (error) {
+            console.warn('Redis Get Failed:', error);
+        }
+        return this.fallback.get(key);
+    }
+
+    async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+        // Wait for Redis: a read that reached it before the write landed would drop the mirrored copy
+        await Promise.all([
+            this.command(['SETEX', key, ttlSeconds, JSON.stringify(value)]).catch((error) => {
+                console.warn('Redis Set Failed:', error);
+            }),
+            this.fallback.set(key, value, ttlSeconds),
+        ]);
+    }
+
+    async getMany(keys: string[]): Promise<Array<unknown | null>> {
+        if (keys.length === 0) return [];
+        try {
+            const results = await this.command<Array<string | null>>(['MGET', ...keys]);
+            const values = keys.map((_, i) => (results?.[i] ? JSON.parse(results[i] as string) : null));
+            // Drop mirrored copies of entries that are gone from Redis
+            await Promise.all(keys.flatMap((key, i) => (values[i] === null ? [this.fallback.delete(key)] : [])));
+            return values;
+        } catch (error) {
+            console.warn('Redis MGet Failed:', error);
+        }
+        return this.fallback.getMany(keys);
+    }
+
+    async setMany(entries: Array<[string, unknown]>, ttlSeconds: number): Promise<void> {
+        if (entries.length === 0) return;
+        // One pipeline round-trip, awaited for the same reason as in set
+        await Promise.all([
+            this.pipeline(entries.map(([key, value]) => ['SETEX', key, ttlSeconds, JSON.stringify(value)])).catch((error) => {
+                console.warn('Redis SetMany Failed:', error);
+            }),
+            this.fallback.setMany(entries, ttlSeconds),
+        ]);
+    }
+
+    async delete(key: string): Promise<void> {
+        try {
+            await this.command(['DEL', key]);
+        } catch (error) {
+            console.warn('Redis Delete Failed:', error);
+        }
+        await this.fallback.delete(key);
+    }
+
+    async size(): Promise<number> {
+        try {
+            return (await this.command<number>(['DBSIZE'])) ?? 0;
+        } catch {
+            return this.fallback.size();
+        }
+    }
+
+    async list(prefix: string, limit: number): Promise<CacheKeyInfo[]> {
+        try {
+            const keys: string[] = [];
+            let cursor = '0';
+            do {
+                const page = await this.command<[string, string[]]>(['SCAN', cursor, 'MATCH', `${escapeGlob(prefix)}*`, 'COUNT', 100]);
+                if (!page) break;
+                cursor = page[0];
+                keys.push(...page[1]);
+            } while (cursor !== '0' && keys.length < limit);
+
+            const selected = keys.slice(0, limit);
+            if (selected.length === 0) return [];
+
+            // One pipeline round-trip for TTL + STRLEN of every key
+            const results = await this.pipeline<number>(
+                selected.flatMap((key) => [['TTL', key], ['STRLEN', key]])
+            );
+            return selected.map((key, i) => ({
+                key,
+                ttlRemaining: Math.max(0, results[i * 2] ?? 0),
+                size: results[i * 2 + 1] ?? 0,
+            }));
+        } catch (error) {
+            console.warn('Redis List Failed:', error);
+            return this.fallback.list(prefix, limit);
+        }
+    }
+
+    private async pipeline<T>(commands: Array<Array<string | number>>): Promise<Array<T | null>> {
+        const res = await fetch(`${this.url}/pipeline`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${this.token}` },
+            body: JSON.stringify(commands),
+        });
+        const data = (await res.json()) as Array<{ result?: T; error?: string }>;
+        if (!Array.isArray(data)) throw new Error('Invalid pipeline response');
+        return data.map((item) => item.result ?? null);
+    }
+
+    private async command<T>(args: Array<string | number>): Promise<T | null> {
+        const res = await fetch(this.url, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${this.token}` },
+            body: JSON.stringify(args),
+        });
+        const data = (await res.json()) as { result?: T; error?: string };
+        if (data.error) throw new Error(data.error);
+        return data.result ?? null;
+    }
+}
@@ -1,96 +1,245 @@
-
 /**
  * Cache utility for storing search results and AI responses.
- * Uses Upstash Redis if configured, otherwise falls back to a simple in-memory Map.
+ * The backend is chosen by CACHE_BACKEND:
+ * - `upstash`: Upstash Redis (default when UPSTASH_REDIS_REST_URL/TOKEN are set), mirrored in memory
+ * - `file`: in-memory LRU persisted to CACHE_FILE_PATH, survives restarts on a single host
+ * - `memory`: in-memory LRU only (default otherwise)
+ * Local stores are capped at CACHE_MAX_ENTRIES entries. Embedding vectors live in their own
+ * in-memory LRU (EMBEDDING_CACHE_MAX_ENTRIES), so context searches don't evict search results
+ * and the file backend doesn't rewrite megabytes of vectors on every flush.
  */
 
-type CacheEntry = {
-    value: unknown;
-    expiresAt: number;
-};
-
-const memoryCache = new Map<string, CacheEntry>();
+import path from 'path';
+import { createHash } from 'crypto';
+import { CacheStore, FileCacheStore, MemoryCacheStore, PartitionedCacheStore, UpstashCacheStore } from '@/lib/cache-store';
+import { CacheKeyInfo, CacheStats, NamespaceStats } from '@/types';
 
 export const TTL = {
     SEARCH_RESULTS: 1800, // 30 mins
+    SEARCH_RESULTS_SOFT: 300, // 5 mins — past this, cached searches are served stale and refreshed
     QUERY_EXPANSION: 3600, // 1 hour
     INTENT_ANALYSIS: 3600, // 1 hour
+    POST_DETAILS: 600, // 10 mins
+    SUBREDDIT_SEARCH: 3600, // 1 hour
+    SUBREDDIT_PROFILE: 900, // 15 mins — includes the hot/top listing
+    USER_PROFILE: 900, // 15 mins
+    COMMENT_SEARCH: 1800, // 30 mins
+    EMBEDDINGS: 604800, // 7 days — keys include a content hash, so edits never serve a stale vector
 };
 
-// Simple cleanup for memory cache to prevent unlimited growth
-setInterval(() => {
-    const now = Date.now();
-    for (const [key, entry] of memoryCache.entries()) {
-        if (entry.expiresAt < now) {
-            memoryCache.delete(key);
-        }
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_EMBEDDING_MAX_ENTRIES = 5000; // About 2 KB each
+const DEFAULT_CACHE_FILE = path.join(process.cwd(), '.cache', 'app-cache.json');
+
+const namespaceStats = new Map<string, NamespaceStats>();
+const inflightRevalidations = new Map<string, Promise<void>>();
+
+type StampedValue<T> = {
+    value: T;
+    cachedAt: number; // epoch ms of the write
+};
+
+export interface StampedEntry<T> {
+    value: T;
+    cachedAt: number;
+    age: number; // seconds since the write
+}
+
+function parseMaxEntries(value: string | undefined, fallback: number): number {
+    const parsed = Number.parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Wraps a local store so the `embedding` namespace gets its own memory LRU.
+ */
+function withEmbeddingPartition(main: CacheStore): CacheStore {
+    const embeddingMax = parseMaxEntries(process.env.EMBEDDING_CACHE_MAX_ENTRIES, DEFAULT_EMBEDDING_MAX_ENTRIES);
+    return new PartitionedCacheStore(main, { embedding: new MemoryCacheStore(embeddingMax) });
+}
+
+function createStore(): CacheStore {
+    const maxEntries = parseMaxEntries(process.env.CACHE_MAX_ENTRIES, DEFAULT_MAX_ENTRIES);
+    const upstashUrl = process.env.UPSTASH_REDIS_REST_URL;
+    const upstashToken = process.env.UPSTASH_REDIS_REST_TOKEN;
+    const backend = (process.env.CACHE_BACKEND || (upstashUrl && upstashToken ? 'upstash' : 'memory')).toLowerCase();
+
+    switch (backend) {
+        case 'file':
+            return withEmbeddingPartition(new FileCacheStore(process.env.CACHE_FILE_PATH || DEFAULT_CACHE_FILE, maxEntries));
+        case 'upstash':
+            if (upstashUrl && upstashToken) {
+                // Redis holds everything; only the local mirror needs the split
+                return new UpstashCacheStore(upstashUrl, upstashToken, withEmbeddingPartition(new MemoryCacheStore(maxEntries)));
+            }
+            console.warn('CACHE_BACKEND=upstash but Upstash credentials are missing; using memory cache.');
+            return withEmbeddingPartition(new MemoryCacheStore(maxEntries));
+        case 'memory':
+            return withEmbeddingPartition(new MemoryCacheStore(maxEntries));
+        default:
+            console.warn(`Unknown CACHE_BACKEND "${backend}"; using memory cache.`);
+            return withEmbeddingPartition(new MemoryCacheStore(maxEntries));
     }
-}, 60000 * 5); // Run every 5 mins
+}
+
+let store: CacheStore | null = null;
+
+function getStore(): CacheStore {
+    if (!store) store = createStore();
+    return store;
+}
 
-async function redisGet(key: string): Promise<unknown | null> {
-    const url = process.env.UPSTASH_REDIS_REST_URL;
-    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+function getNamespace(key: string): string {
+    return key.split(':')[0] || 'default';
+}
 
-    if (!url || !token) return null;
+function recordStat(key: string, field: keyof NamespaceStats): void {
+    const namespace = getNamespace(key);
+    const stats = namespaceStats.get(namespace) ?? { hits: 0, misses: 0, sets: 0 };
+    stats[field]++;
+    namespaceStats.set(namespace, stats);
+}
 
+export async function cacheGet<T>(key: string): Promise<T | null> {
     try {
-        const res = await fetch(`${url}/get/${key}`, {
-            headers: { Authorization: `Bearer ${token}` }
-        });
-        const data = (await res.json()) as { result?: string };
-        if (data.result) {
-            return JSON.parse(data.result);
-        }
-        return null;
+        const value = await getStore().get(key);
+        recordStat(key, value !== null ? 'hits' : 'misses');
+        return value as T | null;
     } catch (error) {
-        console.warn('Redis Get Failed:', error);
+        console.warn('Cache Get Failed:', error);
+        recordStat(key, 'misses');
         return null;
     }
 }
 
-async function redisSet(key: string, value: unknown, ttlSeconds: number): Promise<void> {
-    const url = process.env.UPSTASH_REDIS_REST_URL;
-    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+export async function cacheSet<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    try {
+        await getStore().set(key, value, ttlSeconds);
+        recordStat(key, 'sets');
+    } catch (error) {
+        console.warn('Cache Set Failed:', error);
+    }
+}
 
-    if (!url || !token) return;
+/**
+ * Reads several keys in one round-trip where the backend supports it.
+ * Results line up with `keys`; misses (and failures) are null.
+ */
+export async function cacheGetMany<T>(keys: string[]): Promise<Array<T | null>> {
+    if (keys.length === 0) return [];
+    try {
+        const values = await getStore().getMany(keys);
+        keys.forEach((key, i) => recordStat(key, values[i] !== null ? 'hits' : 'misses'));
+        return values as Array<T | null>;
+    } catch (error) {
+        console.warn('Cache GetMany Failed:', error);
+        keys.forEach((key) => recordStat(key, 'misses'));
+        return keys.map(() => null);
+    }
+}
 
+export async function cacheSetMany<T>(entries: Array<[string, T]>, ttlSeconds: number): Promise<void> {
+    if (entries.length === 0) return;
     try {
-        await fetch(`${url}/setex/${key}/${ttlSeconds}/${JSON.stringify(value)}`, {
-            headers: { Authorization: `Bearer ${token}` }
-        });
+        await getStore().setMany(entries, ttlSeconds);
+        entries.forEach(([key]) => recordStat(key, 'sets'));
     } catch (error) {
-        console.warn('Redis Set Failed:', error);
+        console.warn('Cache SetMany Failed:', error);
     }
 }
 
-export async function cacheGet<T>(key: string): Promise<T | null> {
-    // Try Redis first
-    const redisVal = await redisGet(key);
-    if (redisVal !== null) return redisVal as T;
-
-    // Fallback to Memory
-    const entry = memoryCache.get(key);
-    if (entry && entry.expiresAt > Date.now()) {
-        return entry.value as T;
+/**
+ * Like cacheSet, but records the write time so readers can compute cache age.
+ */
+export async function cacheSetStamped<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const stamped: StampedValue<T> = { value, cachedAt: Date.now() };
+    await cacheSet(key, stamped, ttlSeconds);
+}
+
+/**
+ * Reads an entry written by cacheSetStamped. Entries without a timestamp count as misses.
+ */
+export async function cacheGetStamped<T>(key: string): Promise<StampedEntry<T> | null> {
+    const stored = await cacheGet<StampedValue<T>>(key);
+    if (!stored || typeof stored !== 'object' || typeof stored.cachedAt !== 'number' || !('value' in stored)) {
+        return null;
     }
-    return null;
+    return {
+        value: stored.value,
+        cachedAt: stored.cachedAt,
+        age: Math.max(0, Math.floor((Date.now() - stored.cachedAt) / 1000)),
+    };
 }
 
-export async function cacheSet<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
-    // Write to Redis (Fire & Forget)
-    redisSet(key, value, ttlSeconds).catch(() => { });
+/**
+ * Refreshes a stamped entry in the background. Concurrent calls for the same key
+ * share one refresh. Returning null from `fetcher` keeps the existing entry.
+ */
+export function revalidateInBackground<T>(
+    key: string,
+    fetcher: () => Promise<T | null>,
+    ttlSeconds: number
+): Promise<void> {
+    const existing = inflightRevalidations.get(key);
+    if (existing) return existing;
+
+    const task = (async () => {
+        try {
+            const fresh = await fetcher();
+            if (fresh !== null) await cacheSetStamped(key, fresh, ttlSeconds);
+        } catch (error) {
+            console.warn(`Background revalidation failed for ${key}:`, error);
+        } finally {
+            inflightRevalidations.delete(key);
+        }
+    })();
+
+    inflightRevalidations.set(key, task);
+    return task;
+}
+
+export async function cacheDelete(key: string): Promise<void> {
+    await getStore().delete(key);
+}
 
-    // Write to Memory
-    memoryCache.set(key, {
-        value,
-        expiresAt: Date.now() + (ttlSeconds * 1000)
-    });
+export async function cacheList(prefix = '', limit = 500): Promise<CacheKeyInfo[]> {
+    return getStore().list(prefix, limit);
 }
 
+/**
+ * Deletes every key starting with `prefix`. Returns the number of keys removed.
+ */
+export async function cacheDeletePrefix(prefix: string): Promise<number> {
+    const entries = await getStore().list(prefix, Number.MAX_SAFE_INTEGER);
+    await Promise.all(entries.map((entry) => getStore().delete(entry.key)));
+    return entries.length;
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+    const activeStore = getStore();
+    return {
+        backend: activeStore.name,
+        entries: await activeStore.size(),
+        namespaces: Object.fromEntries(namespaceStats.entries()),
+    };
+}
+
+const MAX_KEY_LENGTH = 200;
+// sha256 hex digest plus its ":" separator
+const KEY_HASH_LENGTH = 65;
+
+/**
+ * Builds a namespaced cache key. Keys over MAX_KEY_LENGTH keep a readable prefix (so
+ * prefix invalidation still finds them) followed by a hash of the whole key, so long
+ * parts can't push later ones past the limit and make distinct requests collide.
+ */
 export function makeCacheKey(namespace: string, ...parts: string[]): string {
-    return [namespace, ...parts]
+    const key = [namespace, ...parts]
         .join(':')
         .toLowerCase()
-        .replace(/\s+/g, '-')
-        .slice(0, 200);
+        .replace(/\s+/g, '-');
+    if (key.length <= MAX_KEY_LENGTH) return key;
+
+    const hash = createHash('sha256').update(key).digest('hex');
+    return `${key.slice(0, MAX_KEY_LENGTH - KEY_HASH_LENGTH)}:${hash}`;
 }
@@ -0,0 +1,124 @@
+/**
+ * Groups crossposts, reposts and near-duplicate posts so each story shows up once.
+ * Pure functions with no server dependencies, so the search page can cluster
+ * results merged across pages on the client too.
+ */
+
+import { RedditPost } from '@/types';
+
+// Jaccard similarity of title word sets at which two posts count as the same story
+const TITLE_SIMILARITY_THRESHOLD = 0.8;
+// Shorter titles ("Help", "Question about taxes") are too generic to compare
+const MIN_TITLE_TOKENS = 4;
+
+// Reddit-hosted links point at the thread itself, not shared content; media hosts are unique per upload
+const REDDIT_THREAD_HOSTS = new Set(['reddit.com', 'www.reddit.com', 'old.reddit.com', 'np.reddit.com', 'redd.it']);
+
+function titleTokens(title: string): Set<string> {
+    return new Set(
+        title
+            .toLowerCase()
+            .replace(/\[[^\]]*\]|\([^)]*\)/g, ' ') // Drop tags like [OC], (x-post r/foo)
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter((token) => token.length > 1)
+    );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    for (const token of a) if (b.has(token)) shared++;
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Normalized external URL a post links to, or null for self posts and links to Reddit threads.
+ */
+function sharedUrl(post: RedditPost): string | null {
+    try {
+        const url = new URL(post.link);
+        const host = url.hostname.toLowerCase();
+        if (REDDIT_THREAD_HOSTS.has(host)) return null;
+
+        // Ignore tracking params and trailing slashes so the same article matches
+        for (const param of Array.from(url.searchParams.keys())) {
+            if (/^(utm_|ref$|fbclid$|si$)/i.test(param)) url.searchParams.delete(param);
+        }
+        return `${host.replace(/^www\./, '')}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+    } catch {
+        return null;
+    }
+}
+
+function engagement(post: RedditPost): number {
+    return post.upvotes + post.comments;
+}
+
+/**
+ * Clusters posts that are crossposts of each other, share an external URL, or have
+ * near-identical titles. Each cluster becomes its most engaged post, carrying the rest
+ * in `similarPosts` and the summed engagement in `clusterUpvotes` / `clusterComments`.
+ * Order follows each cluster's first appearance in `posts`.
+ */
+export function clusterPosts(posts: RedditPost[]): RedditPost[] {
+    // Union-find over post indices
+    const parent = posts.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+    const union = (a: number, b: number) => {
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+    };
+
+    // 1. Crossposts: link to the parent, or to siblings crossposted from the same parent
+    // 2. Same external URL
+    const byKey = new Map<string, number>();
+    const linkByKey = (key: string, index: number) => {
+        const existing = byKey.get(key);
+        if (existing === undefined) byKey.set(key, index);
+        else union(existing, index);
+    };
+    posts.forEach((post, i) => {
+        linkByKey(`post:${post.id}`, i);
+        if (post.crosspostParent) linkByKey(`post:${post.crosspostParent}`, i);
+        const url = sharedUrl(post);
+        if (url) linkByKey(`url:${url}`, i);
+    });
+
+    // 3. Near-identical titles
+    const tokens = posts.map((post) => titleTokens(post.title));
+    for (let i = 0; i < posts.length; i++) {
+        if (tokens[i].size < MIN_TITLE_TOKENS) continue;
+        for (let j = i + 1; j < posts.length; j++) {
+            if (tokens[j].size < MIN_TITLE_TOKENS || find(i) === find(j)) continue;
+            if (jaccard(tokens[i], tokens[j]) >= TITLE_SIMILARITY_THRESHOLD) union(i, j);
+        }
+    }
+
+    const clusters = new Map<number, RedditPost[]>();
+    posts.forEach((post, i) => {
+        const root = find(i);
+        const members = clusters.get(root) ?? [];
+        members.push(post);
+        clusters.set(root, members);
+    });
+
+    return Array.from(clusters.values()).map((members) => {
+        if (members.length === 1) return members[0];
+
+        const [canonical, ...similarPosts] = [...members].sort((a, b) => engagement(b) - engagement(a));
+        const frequencyBonuses = members.map((post) => post.frequencyBonus).filter((bonus) => bonus !== undefined);
+        return {
+            ...canonical,
+            similarPosts,
+            clusterUpvotes: members.reduce((sum, post) => sum + post.upvotes, 0),
+            clusterComments: members.reduce((sum, post) => sum + post.comments, 0),
+            frequencyBonus: frequencyBonuses.length > 0 ? Math.max(...frequencyBonuses) : undefined,
+        };
+    });
+}
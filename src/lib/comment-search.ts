@@ -0,0 +1,73 @@
+/**
+ * Comment matching for comment search. Reddit's search only indexes posts, so the
+ * route pulls comment trees for the top threads and keeps the comments that match here.
+ * Understands the same syntax as the search box: exact phrases, NOT and a single AND/OR.
+ */
+
+import { parseRedditQuery } from '@/lib/reddit-query';
+import { tokenize } from '@/lib/ranking';
+
+// A word may extend a search term by a short suffix: "grinder" matches "grinders", "cat" doesn't match "category"
+const MAX_SUFFIX_LENGTH = 3;
+
+interface CommentTerm {
+    words: string[]; // Loose terms: every word must appear
+    phrase: string | null; // Exact terms: the normalized phrase must appear as a run of words
+}
+
+function normalize(text: string): string {
+    return ` ${text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).join(' ')} `;
+}
+
+function toTerm(value: string, exact: boolean): CommentTerm | null {
+    const words = tokenize(value);
+    // All-stopword values ("how to") only make sense as a phrase
+    if (exact || words.length === 0) {
+        const phrase = normalize(value);
+        return phrase.trim() ? { words: [], phrase } : null;
+    }
+    return { words, phrase: null };
+}
+
+function termMatches(term: CommentTerm, body: string, words: string[]): boolean {
+    if (term.phrase) return body.includes(term.phrase);
+    return term.words.every((wanted) =>
+        words.some((word) => word === wanted || (word.startsWith(wanted) && word.length - wanted.length <= MAX_SUFFIX_LENGTH))
+    );
+}
+
+/**
+ * Builds a predicate for comment bodies from a search query. Field clauses (`subreddit:`, `author:` ...)
+ * describe posts, so they are left to Reddit's post search; `selftext:` is matched against the comment body.
+ * Returns null when the query has nothing to look for inside comments.
+ */
+export function createCommentMatcher(query: string): ((body: string) => boolean) | null {
+    const parsed = parseRedditQuery(query);
+    let operator: 'AND' | 'OR' = 'AND';
+    const required: CommentTerm[] = [];
+    const excluded: CommentTerm[] = [];
+
+    if (parsed.ok) {
+        operator = parsed.query.operator;
+        for (const clause of parsed.query.clauses) {
+            if (clause.field !== 'text' && clause.field !== 'selftext') continue;
+            const term = toTerm(clause.value, Boolean(clause.exact));
+            if (term) (clause.negate ? excluded : required).push(term);
+        }
+    } else {
+        // Syntax the parser can't represent: require every plain word
+        const words = tokenize(query.replace(/\b(AND|OR|NOT)\b/g, ' ').replace(/\b[a-z_]+:\S+/gi, ' '));
+        if (words.length > 0) required.push({ words, phrase: null });
+    }
+
+    if (required.length === 0) return null;
+
+    return (rawBody: string) => {
+        const body = normalize(rawBody);
+        const words = body.trim().split(' ');
+        if (excluded.some((term) => termMatches(term, body, words))) return false;
+        return operator === 'OR'
+            ? required.some((term) => termMatches(term, body, words))
+            : required.every((term) => termMatches(term, body, words));
+    };
+}
@@ -0,0 +1,108 @@
+/**
+ * Custom date ranges for Reddit search. Reddit only offers fixed `t` windows
+ * (hour, day, week, month, year, all), so a range is searched with the smallest
+ * window that covers it and the results are trimmed on `created_utc`.
+ * Shared by the API routes and the search form.
+ */
+
+import { DateRangeInput, TimeRange } from '@/types';
+
+/** Inclusive bounds in epoch seconds. */
+export interface DateBounds {
+    from?: number;
+    to?: number;
+}
+
+export type RedditTimeWindow = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export const TIME_RANGES: TimeRange[] = ['hour', 'day', 'week', '15d', 'month', 'year', 'all'];
+
+export function isTimeRange(value: unknown): value is TimeRange {
+    return typeof value === 'string' && TIME_RANGES.includes(value as TimeRange);
+}
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+// Reddit's windows, smallest first. Month and year are padded for 31-day months and leap years.
+const WINDOWS: Array<[RedditTimeWindow, number]> = [
+    ['hour', HOUR],
+    ['day', DAY],
+    ['week', 7 * DAY],
+    ['month', 31 * DAY],
+    ['year', 366 * DAY],
+];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function nowSeconds(): number {
+    return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Parses one bound. Date-only values are UTC days: `from` starts at 00:00, `to` ends at 23:59:59.
+ */
+function parseBound(value: string, edge: 'from' | 'to'): number | null {
+    const trimmed = value.trim();
+    const ms = Date.parse(DATE_ONLY.test(trimmed) ? `${trimmed}T00:00:00Z` : trimmed);
+    if (!Number.isFinite(ms)) return null;
+    const seconds = Math.floor(ms / 1000);
+    return edge === 'to' && DATE_ONLY.test(trimmed) ? seconds + DAY - 1 : seconds;
+}
+
+/**
+ * Validates `from`/`to` (ISO dates or datetimes). Either may be omitted.
+ */
+export function parseDateRange(
+    input: { from?: unknown; to?: unknown }
+): { ok: true; bounds: DateBounds | null } | { ok: false; error: string } {
+    const bounds: DateBounds = {};
+
+    for (const edge of ['from', 'to'] as const) {
+        const raw = input[edge];
+        if (raw === undefined || raw === null || raw === '') continue;
+        if (typeof raw !== 'string') return { ok: false, error: `"${edge}" must be a date string` };
+        const parsed = parseBound(raw, edge);
+        if (parsed === null) return { ok: false, error: `"${edge}" is not a valid date (use YYYY-MM-DD)` };
+        bounds[edge] = parsed;
+    }
+
+    if (bounds.from !== undefined && bounds.to !== undefined && bounds.from > bounds.to) {
+        return { ok: false, error: '"from" must be on or before "to"' };
+    }
+    if (bounds.from !== undefined && bounds.from > nowSeconds()) {
+        return { ok: false, error: '"from" is in the future' };
+    }
+
+    return { ok: true, bounds: bounds.from === undefined && bounds.to === undefined ? null : bounds };
+}
+
+/**
+ * Bounds for presets Reddit has no native window for (currently "15d"); null otherwise.
+ */
+export function presetBounds(time: TimeRange | string | undefined): DateBounds | null {
+    return time === '15d' ? { from: nowSeconds() - 15 * DAY } : null;
+}
+
+/**
+ * The smallest Reddit window containing every post on or after `bounds.from`.
+ */
+export function coveringWindow(bounds: DateBounds): RedditTimeWindow {
+    if (bounds.from === undefined) return 'all';
+    const span = nowSeconds() - bounds.from;
+    return WINDOWS.find(([, seconds]) => span <= seconds)?.[0] ?? 'all';
+}
+
+export function isWithinBounds(createdUtc: number | undefined, bounds: DateBounds): boolean {
+    if (!createdUtc) return false;
+    if (bounds.from !== undefined && createdUtc < bounds.from) return false;
+    if (bounds.to !== undefined && createdUtc > bounds.to) return false;
+    return true;
+}
+
+/**
+ * Cache-key fragment for a range; "any" when unbounded.
+ */
+export function dateRangeKey(input: DateRangeInput): string {
+    return input.from || input.to ? `${input.from || ''}..${input.to || ''}` : 'any';
+}
@@ -2,9 +2,26 @@
 /**
  * Embeddings utility for semantic similarity checks.
  * Includes concurrency limiting, retries, and batch processing.
+ *
+ * Backends (EMBEDDINGS_BACKEND):
+ * - "auto" (default): Hugging Face router when HF_API_KEY is set, falling back to the
+ *   local model once its retries are exhausted; the local model when there's no key
+ * - "hf": Hugging Face router only
+ * - "local": in-process model only (see `local-embeddings.ts`)
+ *
+ * Vectors are cached per model, post id and content hash, so popular posts that show up
+ * across many searches are only embedded once.
  */
 
-const HF_API_URL = 'https://router.huggingface.co/hf-inference/models/BAAI/bge-small-en-v1.5';
+import { createHash } from 'crypto';
+import { getLocalEmbeddings, getLocalModelName } from '@/lib/local-embeddings';
+import { cacheGetMany, cacheSetMany, makeCacheKey, TTL } from '@/lib/cache';
+
+export type EmbeddingBackend = 'hf' | 'local';
+type EmbeddingBackendSetting = EmbeddingBackend | 'auto';
+
+const HF_MODEL = 'BAAI/bge-small-en-v1.5';
+const HF_API_URL = `https://router.huggingface.co/hf-inference/models/${HF_MODEL}`;
 
 class ConcurrencyLimiter {
     private maxConcurrent: number;
@@ -125,8 +142,145 @@ async function getEmbeddingsWithRetry(texts: string[], attempt = 1): Promise<num
     }
 }
 
-export async function getEmbeddings(texts: string[]): Promise<number[][]> {
-    return limiter.run(() => getEmbeddingsWithRetry(texts));
+function getBackendSetting(): EmbeddingBackendSetting {
+    const value = process.env.EMBEDDINGS_BACKEND?.trim().toLowerCase();
+    if (value === 'hf' || value === 'local') return value;
+    if (value && value !== 'auto') {
+        console.warn(`Unknown EMBEDDINGS_BACKEND "${value}", using auto`);
+    }
+    return 'auto';
+}
+
+function getPrimaryBackend(setting: EmbeddingBackendSetting): EmbeddingBackend {
+    return setting === 'local' || (setting === 'auto' && !process.env.HF_API_KEY) ? 'local' : 'hf';
+}
+
+function getModelName(backend: EmbeddingBackend): string {
+    return backend === 'hf' ? HF_MODEL : getLocalModelName();
+}
+
+/**
+ * Embeds `texts` with the configured backend, reporting which one produced the vectors.
+ */
+export async function getEmbeddings(texts: string[]): Promise<{ vectors: number[][]; backend: EmbeddingBackend }> {
+    const setting = getBackendSetting();
+
+    if (getPrimaryBackend(setting) === 'local') {
+        return { vectors: await getLocalEmbeddings(texts), backend: 'local' };
+    }
+
+    try {
+        return { vectors: await limiter.run(() => getEmbeddingsWithRetry(texts)), backend: 'hf' };
+    } catch (error) {
+        if (setting === 'hf') throw error;
+        console.warn(`Hugging Face embeddings failed (${getErrorMessage(error)}); falling back to the local model`);
+        return { vectors: await getLocalEmbeddings(texts), backend: 'local' };
+    }
+}
+
+export interface EmbeddingInput {
+    text: string;
+    cacheId?: string; // Stable id such as a post id; inputs without one are always embedded fresh
+}
+
+function embeddingCacheKey(model: string, cacheId: string, text: string): string {
+    const contentHash = createHash('sha256').update(text).digest('hex').slice(0, 16);
+    return makeCacheKey('embedding', model, cacheId, contentHash);
+}
+
+// Stored as base64 float32: about a quarter the size of a JSON number array
+function encodeVector(vector: number[]): string {
+    return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+    // Copy into a fresh buffer; the decoded Buffer's offset may not be 4-byte aligned
+    return Array.from(new Float32Array(new Uint8Array(Buffer.from(encoded, 'base64')).buffer));
+}
+
+/**
+ * Reads cached vectors for `inputs` under `model`; entries are undefined for misses and uncacheable inputs.
+ */
+async function readCachedVectors(inputs: EmbeddingInput[], model: string): Promise<Array<number[] | undefined>> {
+    const cacheable = inputs.flatMap((input, index) => (input.cacheId ? [index] : []));
+    const cached = await cacheGetMany<string>(
+        cacheable.map((index) => embeddingCacheKey(model, inputs[index].cacheId as string, inputs[index].text))
+    );
+
+    const vectors: Array<number[] | undefined> = inputs.map(() => undefined);
+    cacheable.forEach((index, i) => {
+        const encoded = cached[i];
+        if (typeof encoded === 'string') vectors[index] = decodeVector(encoded);
+    });
+    return vectors;
+}
+
+/**
+ * Fills `vectors` at `indices` with freshly embedded `fresh` and caches them under `model`.
+ */
+async function storeFreshVectors(
+    inputs: EmbeddingInput[],
+    indices: number[],
+    fresh: number[][],
+    vectors: Array<number[] | undefined>,
+    model: string
+): Promise<void> {
+    const toCache: Array<[string, string]> = [];
+    indices.forEach((index, i) => {
+        const vector = fresh[i];
+        if (!vector) return;
+        vectors[index] = vector;
+        const { cacheId, text } = inputs[index];
+        if (cacheId) toCache.push([embeddingCacheKey(model, cacheId, text), encodeVector(vector)]);
+    });
+    await cacheSetMany(toCache, TTL.EMBEDDINGS);
+}
+
+function missingIndices(vectors: Array<number[] | undefined>): number[] {
+    return vectors.flatMap((vector, index) => (vector ? [] : [index]));
+}
+
+/**
+ * Like getEmbeddings, but serves vectors from the cache where possible and only embeds misses.
+ * Every returned vector comes from the same model: when the primary backend fails over to the
+ * local model, cache hits from the primary model are dropped and re-read (or re-embedded) with
+ * the local one, since cosine similarity across two models' vectors is meaningless.
+ */
+export async function getCachedEmbeddings(
+    inputs: EmbeddingInput[]
+): Promise<{ vectors: number[][]; backend: EmbeddingBackend; cacheHits: number }> {
+    const primary = getPrimaryBackend(getBackendSetting());
+
+    let vectors = await readCachedVectors(inputs, getModelName(primary));
+    let cacheHits = vectors.filter(Boolean).length;
+    const misses = missingIndices(vectors);
+    if (misses.length === 0) {
+        return { vectors: vectors as number[][], backend: primary, cacheHits };
+    }
+
+    const fresh = await getEmbeddings(misses.map((index) => inputs[index].text));
+    const model = getModelName(fresh.backend);
+
+    if (fresh.backend !== primary) {
+        // Fell back to the local model: start over with its cache, keeping the vectors it just produced
+        vectors = await readCachedVectors(inputs, model);
+        misses.forEach((index) => {
+            vectors[index] = undefined;
+        });
+        cacheHits = vectors.filter(Boolean).length;
+    }
+    await storeFreshVectors(inputs, misses, fresh.vectors, vectors, model);
+
+    const remaining = missingIndices(vectors);
+    if (fresh.backend !== primary && remaining.length > 0) {
+        const local = await getLocalEmbeddings(remaining.map((index) => inputs[index].text));
+        await storeFreshVectors(inputs, remaining, local, vectors, model);
+    }
+
+    if (vectors.some((vector) => !vector)) {
+        throw new Error('Embedding backend returned fewer vectors than requested');
+    }
+    return { vectors: vectors as number[][], backend: fresh.backend, cacheHits };
 }
 
 function cosineSimilarity(a: number[], b: number[]): number {
@@ -143,58 +297,65 @@ function cosineSimilarity(a: number[], b: number[]): number {
 
 /**
  * Returns adaptive threshold based on intent type.
+ * How-to searches need close matches; stories and trends are phrased more loosely.
  */
-export function adaptiveThreshold(intent: string): number {
-    switch (intent.toLowerCase()) {
+export function adaptiveThreshold(intent: QueryIntent): number {
+    switch (intent) {
         case 'how-to': return 0.74;
         case 'story': return 0.68;
         case 'trend': return 0.70;
-        default: return 0.72; // problem or unknown
+        case 'problem':
+        default: return 0.72;
     }
 }
 
+export interface SemanticFilterResult {
+    posts: RedditPost[];
+    backend: EmbeddingBackend | 'skipped'; // "skipped" when no backend could embed; posts pass through unfiltered
+    cacheHits: number; // Vectors served from the embedding cache
+}
+
 /**
  * Filters posts by semantic similarity to the query.
- * Embeds query and all posts in a single batch call.
+ * Embeds the query and every uncached post in a single batch call.
  */
 export async function semanticFilter(
     posts: RedditPost[],
     query: string,
-    intentType: string = 'unknown'
-): Promise<RedditPost[]> {
-    if (posts.length === 0) return [];
+    intentType: QueryIntent = 'unknown'
+): Promise<SemanticFilterResult> {
+    if (posts.length === 0) return { posts: [], backend: 'skipped', cacheHits: 0 };
 
     try {
         // Prepare texts: Query first, then all posts
         // For posts, combine title + snippet for better context
-        const textsToEmbed = [
-            query,
-            ...posts.map((post) => `${post.title} ${post.selftext?.slice(0, 200) || ''}`)
+        const inputs: EmbeddingInput[] = [
+            { text: query, cacheId: 'query' },
+            ...posts.map((post) => ({ text: `${post.title} ${post.selftext?.slice(0, 200) || ''}`, cacheId: post.id }))
         ];
 
-        const embeddings = await getEmbeddings(textsToEmbed);
+        const { vectors, backend, cacheHits } = await getCachedEmbeddings(inputs);
 
-        const queryEmbedding = embeddings[0];
-        const postEmbeddings = embeddings.slice(1);
-        if (!queryEmbedding) return [];
+        const queryEmbedding = vectors[0];
+        const postEmbeddings = vectors.slice(1);
+        if (!queryEmbedding) throw new Error('Embedding backend returned no query vector');
 
         const threshold = adaptiveThreshold(intentType);
 
-        return posts.filter((post, index) => {
+        const filtered = posts.filter((post, index) => {
             const postEmbedding = postEmbeddings[index];
             if (!postEmbedding) return false;
             const score = cosineSimilarity(queryEmbedding, postEmbedding);
             post.semanticScore = score;
             return score >= threshold;
         });
+        return { posts: filtered, backend, cacheHits };
 
     } catch (error) {
-        console.error('Semantic filter failed:', error);
-        // Fail open? Or fail closed? 
-        // Instructions imply this is a filter, so maybe return empty or return all if it fails?
-        // Let's return all but mark them as unverified to be safe, or just rethrow.
-        // Given this is "Context Search", returning all might spam. Let's return empty to be safe.
-        return [];
+        // Fail open: AI relevance scoring still runs on the heuristic top candidates,
+        // which beats silently returning nothing when embeddings are unavailable
+        console.error('Semantic filter failed, passing posts through unfiltered:', error);
+        return { posts, backend: 'skipped', cacheHits: 0 };
     }
 }
-import { RedditPost } from '@/types';
+import { QueryIntent, RedditPost } from '@/types';
@@ -1,5 +1,5 @@
 
-import { RedditPost } from '@/types';
+import { QueryIntent, RedditPost } from '@/types';
 
 /**
  * Builds a frequency map of how many times each post appeared across different search queries.
@@ -48,8 +48,9 @@ export function deduplicateWithBonus(queryResults: RedditPost[][]): RedditPost[]
  * Uses defensive fallbacks to prevent NaN.
  */
 export function heuristicScore(post: RedditPost): number {
-    const upvotes = post.upvotes || 0;
-    const comments = post.comments || 0;
+    // A story posted to several communities is more viral than any single copy suggests
+    const upvotes = post.clusterUpvotes || post.upvotes || 0;
+    const comments = post.clusterComments || post.comments || 0;
     const ratio = post.upvote_ratio || 0.5;
     const created =
         post.created_utc ||
@@ -67,3 +68,17 @@ export function heuristicScore(post: RedditPost): number {
 
     return score;
 }
+
+const INTENT_PATTERNS: [QueryIntent, RegExp][] = [
+    ['how-to', /\b(how (to|do|can|should)|guide|tutorial|tips|steps|best way)\b/i],
+    ['problem', /\b(problem|issue|error|fix|broken|not working|can'?t|won'?t|struggl\w*|help)\b/i],
+    ['story', /\b(story|stories|experience|happened|confession|tifu|when i)\b/i],
+    ['trend', /\b(trend\w*|latest|new|upcoming|20\d\d|this (year|month|week)|viral)\b/i],
+];
+
+/**
+ * Keyword-based intent guess, used when AI query expansion is unavailable or unsure.
+ */
+export function classifyIntentHeuristically(query: string): QueryIntent {
+    return INTENT_PATTERNS.find(([, pattern]) => pattern.test(query))?.[0] ?? 'unknown';
+}
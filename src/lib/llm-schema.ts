@@ -0,0 +1,249 @@
+/**
+ * Output schemas for each AI task.
+ * A schema turns raw model text into a typed value or a list of readable errors,
+ * which `ai.ts` feeds back to the model in a single repair retry.
+ */
+
+import { ContentIdea, QueryIntent, VideoScripts } from '@/types';
+
+export type SchemaResult<T> =
+    | { ok: true; value: T; warnings: string[] } // Warnings: problems that were tolerated (e.g. a dropped item)
+    | { ok: false; errors: string[] };
+
+export interface LlmSchema<T> {
+    /** Shape shown to the model when asking it to fix its output. */
+    shape: string;
+    validate(value: unknown): SchemaResult<T>;
+    /** Keeps whatever is usable from output that still fails validation after the repair retry. */
+    salvage(value: unknown): T;
+}
+
+// Keep repair prompts and API reports short
+const MAX_REPORTED_ERRORS = 8;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+function limitErrors(errors: string[]): string[] {
+    if (errors.length <= MAX_REPORTED_ERRORS) return errors;
+    return [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${errors.length - MAX_REPORTED_ERRORS} more`];
+}
+
+/**
+ * Extracts the JSON document from model output, tolerating markdown fences
+ * and prose around it.
+ */
+export function parseModelJson(content: string): { ok: true; value: unknown } | { ok: false; error: string } {
+    if (!content.trim()) return { ok: false, error: 'Response was empty' };
+
+    let cleaned = content.replace(/```(?:json)?|```/g, '');
+    const firstOpen = cleaned.search(/[{[]/);
+    const lastClose = cleaned.search(/[}\]][^}\]]*$/);
+
+    if (firstOpen === -1 || lastClose === -1) {
+        return { ok: false, error: 'Response did not contain a JSON object or array' };
+    }
+    cleaned = cleaned.substring(firstOpen, lastClose + 1);
+
+    try {
+        return { ok: true, value: JSON.parse(cleaned) };
+    } catch (error) {
+        return { ok: false, error: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
+
+/**
+ * Validates a list of non-empty strings found either at `root[key]` or as a bare array.
+ */
+function stringListSchema(key: string, shape: string, minItems: number): LlmSchema<string[]> {
+    return {
+        shape,
+        validate(value) {
+            const list = Array.isArray(value) ? value : isRecord(value) ? value[key] : undefined;
+            if (!Array.isArray(list)) {
+                return { ok: false, errors: [`Expected an object with a "${key}" array`] };
+            }
+
+            const errors: string[] = [];
+            const items: string[] = [];
+            list.forEach((item, i) => {
+                if (isNonEmptyString(item)) items.push(item.trim());
+                else errors.push(`${key}[${i}] must be a non-empty string`);
+            });
+
+            if (items.length < minItems) {
+                return { ok: false, errors: limitErrors([...errors, `"${key}" must contain at least ${minItems} item(s)`]) };
+            }
+            return { ok: true, value: items, warnings: limitErrors(errors) };
+        },
+        salvage(value) {
+            const list = Array.isArray(value) ? value : isRecord(value) ? value[key] : undefined;
+            return Array.isArray(list) ? list.filter(isNonEmptyString).map((item) => item.trim()) : [];
+        },
+    };
+}
+
+const QUERY_INTENTS: QueryIntent[] = ['how-to', 'story', 'trend', 'problem', 'unknown'];
+
+const queriesSchema = stringListSchema('queries', '', 1);
+
+function readIntent(value: unknown): QueryIntent | undefined {
+    if (typeof value !== 'string') return undefined;
+    // Models often write "how to" or "How-To"
+    const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+    return QUERY_INTENTS.find((intent) => intent === normalized);
+}
+
+/**
+ * Expanded search queries plus the query's intent. An unrecognised intent is tolerated
+ * (as "unknown") so a good set of queries isn't thrown away over it.
+ */
+export const queryExpansionSchema: LlmSchema<{ queries: string[]; intent: QueryIntent }> = {
+    shape: `{ "intent": "${QUERY_INTENTS.join('" | "')}", "queries": ["query one", "query two", "query three"] }`,
+    validate(value) {
+        const queries = queriesSchema.validate(value);
+        if (!queries.ok) return queries;
+
+        const rawIntent = isRecord(value) ? value.intent : undefined;
+        const intent = readIntent(rawIntent);
+        const warnings = intent ? queries.warnings : [...queries.warnings, `Unrecognised intent ${JSON.stringify(rawIntent)}`];
+        return { ok: true, value: { queries: queries.value, intent: intent ?? 'unknown' }, warnings };
+    },
+    salvage(value) {
+        return {
+            queries: queriesSchema.salvage(value),
+            intent: (isRecord(value) ? readIntent(value.intent) : undefined) ?? 'unknown',
+        };
+    },
+};
+
+export const hooksSchema = stringListSchema('hooks', '{ "hooks": ["hook one", "hook two", ...] }', 1);
+
+/**
+ * Relevance scores keyed by post id. Every id in `expectedIds` must be scored 0–10.
+ */
+export function scoresSchema(expectedIds: string[]): LlmSchema<Record<string, number>> {
+    return {
+        shape: `{ ${expectedIds.slice(0, 2).map((id) => `"${id}": 7`).join(', ')}, ... } with a 0-10 score for every post id`,
+        validate(value) {
+            if (!isRecord(value)) {
+                return { ok: false, errors: ['Expected an object mapping post ids to scores'] };
+            }
+
+            const errors: string[] = [];
+            const warnings: string[] = [];
+            const scores: Record<string, number> = {};
+            const expected = new Set(expectedIds);
+
+            for (const [id, raw] of Object.entries(value)) {
+                if (!expected.has(id)) {
+                    warnings.push(`Ignored unknown post id "${id}"`);
+                    continue;
+                }
+                const numeric = typeof raw === 'number' ? raw : Number.parseFloat(String(raw));
+                if (!Number.isFinite(numeric)) {
+                    errors.push(`Score for "${id}" must be a number, got ${JSON.stringify(raw)}`);
+                    continue;
+                }
+                scores[id] = Math.max(0, Math.min(10, numeric));
+            }
+
+            const missing = expectedIds.filter((id) => !(id in scores) && !errors.some((e) => e.includes(`"${id}"`)));
+            if (missing.length > 0) {
+                errors.push(`Missing scores for: ${missing.join(', ')}`);
+            }
+
+            if (errors.length > 0) return { ok: false, errors: limitErrors(errors) };
+            return { ok: true, value: scores, warnings: limitErrors(warnings) };
+        },
+        salvage(value) {
+            if (!isRecord(value)) return {};
+            const expected = new Set(expectedIds);
+            const scores: Record<string, number> = {};
+            for (const [id, raw] of Object.entries(value)) {
+                const numeric = typeof raw === 'number' ? raw : Number.parseFloat(String(raw));
+                if (expected.has(id) && Number.isFinite(numeric)) scores[id] = Math.max(0, Math.min(10, numeric));
+            }
+            return scores;
+        },
+    };
+}
+
+function readIdeaList(value: unknown): unknown[] | undefined {
+    const list = Array.isArray(value) ? value : isRecord(value) ? value.ideas : undefined;
+    return Array.isArray(list) ? list : undefined;
+}
+
+/**
+ * Parses one idea, returning the problem instead when it's unusable.
+ */
+function readIdea(item: unknown, index: number): ContentIdea | string {
+    if (!isRecord(item)) return `ideas[${index}] must be an object`;
+
+    const missing = (['hook', 'concept'] as const).filter((field) => !isNonEmptyString(item[field]));
+    if (missing.length > 0) {
+        return `ideas[${index}] is missing ${missing.map((field) => `"${field}"`).join(' and ')}`;
+    }
+    return {
+        hook: (item.hook as string).trim(),
+        concept: (item.concept as string).trim(),
+        why: isNonEmptyString(item.why) ? item.why.trim() : '',
+        cta: isNonEmptyString(item.cta) ? item.cta.trim() : '',
+        hooks: Array.isArray(item.hooks) ? item.hooks.filter(isNonEmptyString) : [],
+    };
+}
+
+export const ideasSchema: LlmSchema<ContentIdea[]> = {
+    shape: '{ "ideas": [{ "hook": "...", "concept": "...", "why": "...", "cta": "..." }] }',
+    validate(value) {
+        const list = readIdeaList(value);
+        if (!list) {
+            return { ok: false, errors: ['Expected an object with an "ideas" array'] };
+        }
+
+        const parsed = list.map(readIdea);
+        const problems = parsed.filter((item): item is string => typeof item === 'string');
+        const ideas = parsed.filter((item): item is ContentIdea => typeof item !== 'string');
+
+        // Any malformed item is worth a repair attempt; salvage keeps the good ones if that fails
+        if (problems.length > 0) return { ok: false, errors: limitErrors(problems) };
+        if (ideas.length === 0) return { ok: false, errors: ['"ideas" must not be empty'] };
+        return { ok: true, value: ideas, warnings: [] };
+    },
+    salvage(value) {
+        return (readIdeaList(value) ?? [])
+            .map(readIdea)
+            .filter((item): item is ContentIdea => typeof item !== 'string');
+    },
+};
+
+export const scriptsSchema: LlmSchema<VideoScripts> = {
+    shape: '{ "variation1": "full script text", "variation2": "full script text" }',
+    validate(value) {
+        if (!isRecord(value)) {
+            return { ok: false, errors: ['Expected an object with "variation1" and "variation2"'] };
+        }
+        const errors = (['variation1', 'variation2'] as const)
+            .filter((field) => !isNonEmptyString(value[field]))
+            .map((field) => `"${field}" must be a non-empty string`);
+
+        if (errors.length > 0) return { ok: false, errors };
+        return {
+            ok: true,
+            value: { variation1: value.variation1 as string, variation2: value.variation2 as string },
+            warnings: [],
+        };
+    },
+    salvage(value) {
+        const record = isRecord(value) ? value : {};
+        return {
+            variation1: isNonEmptyString(record.variation1) ? record.variation1 : '',
+            variation2: isNonEmptyString(record.variation2) ? record.variation2 : '',
+        };
+    },
+};
@@ -0,0 +1,403 @@
+/**
+ * LLM providers behind the AI helpers in `ai.ts`.
+ * Each task (query expansion, scoring, ideas, hooks, scripts) can use its own
+ * provider and model, configured from the environment:
+ * - LLM_PROVIDER / LLM_MODEL set the defaults (`groq`, `openai-compatible` or `mock`)
+ * - LLM_PROVIDER_<TASK> / LLM_MODEL_<TASK> override them per task, e.g. LLM_MODEL_SCORING
+ * - OPENAI_BASE_URL / OPENAI_API_KEY configure the OpenAI-compatible provider
+ *   (OpenAI itself, or a local Ollama / llama.cpp server)
+ */
+
+import OpenAI from 'openai';
+import { readSseEvents } from '@/lib/sse';
+
+const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
+const DEFAULT_GROQ_MODEL = 'llama-3.3-70b-versatile';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const MOCK_CHUNK_SIZE = 16;
+
+export type LlmTask = 'query-expansion' | 'scoring' | 'ideas' | 'hooks' | 'scripts';
+export type LlmProviderName = 'groq' | 'openai-compatible' | 'mock';
+
+export type LlmMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export interface RateLimitInfo {
+    remaining: number;
+    limit: number;
+    resetInSeconds: number;
+}
+
+export interface LlmCompletionRequest {
+    task: LlmTask;
+    model: string;
+    messages: LlmMessage[];
+    temperature: number;
+    apiKeyOverride?: string; // Client-supplied key, only honoured by providers that accept one
+    signal?: AbortSignal;
+}
+
+export interface LlmCompletion {
+    content: string;
+    rateLimit: RateLimitInfo;
+}
+
+export interface LlmStream {
+    rateLimit: RateLimitInfo;
+    chunks: AsyncIterable<string>; // Content deltas in arrival order
+}
+
+export interface LlmProvider {
+    readonly name: LlmProviderName;
+    readonly defaultModel: string;
+    complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+    /** Like complete, but yields the content as it's generated. */
+    stream(request: LlmCompletionRequest): Promise<LlmStream>;
+}
+
+interface GroqResponse {
+    choices?: Array<{
+        message?: {
+            content?: string;
+        };
+    }>;
+}
+
+interface GroqStreamChunk {
+    choices?: Array<{
+        delta?: {
+            content?: string;
+        };
+    }>;
+}
+
+class GroqHttpError extends Error {
+    status: number;
+    body: string;
+
+    constructor(status: number, body: string) {
+        super(`Groq API error ${status}: ${body}`);
+        this.status = status;
+        this.body = body;
+    }
+}
+
+function parseRateLimitHeader(value: string | null, fallback: number): number {
+    const parsed = Number.parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function readRateLimit(headers: Headers): RateLimitInfo {
+    return {
+        remaining: parseRateLimitHeader(headers.get('x-ratelimit-remaining-requests'), 0),
+        limit: parseRateLimitHeader(headers.get('x-ratelimit-limit-requests'), 30),
+        resetInSeconds: parseRateLimitHeader(headers.get('x-ratelimit-reset-requests'), 60),
+    };
+}
+
+function isInvalidGroqApiKeyError(error: unknown): boolean {
+    if (!(error instanceof GroqHttpError)) return false;
+    if (error.status !== 401) return false;
+    const body = error.body.toLowerCase();
+    return body.includes('invalid_api_key') || body.includes('invalid api key');
+}
+
+/**
+ * Groq chat completions. Accepts a client-supplied key and falls back to
+ * GROQ_API_KEY when Groq rejects it.
+ */
+export class GroqProvider implements LlmProvider {
+    readonly name = 'groq';
+    readonly defaultModel = DEFAULT_GROQ_MODEL;
+
+    complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        return this.withKeyFallback(request.apiKeyOverride, (apiKey) => this.send(request, apiKey));
+    }
+
+    stream(request: LlmCompletionRequest): Promise<LlmStream> {
+        return this.withKeyFallback(request.apiKeyOverride, (apiKey) => this.openStream(request, apiKey));
+    }
+
+    private async withKeyFallback<T>(apiKeyOverride: string | undefined, run: (apiKey: string) => Promise<T>): Promise<T> {
+        const envApiKey = process.env.GROQ_API_KEY;
+        const primaryApiKey = apiKeyOverride || envApiKey;
+        if (!primaryApiKey) throw new Error('Missing GROQ_API_KEY');
+
+        try {
+            return await run(primaryApiKey);
+        } catch (error: unknown) {
+            const canFallbackToEnvKey =
+                Boolean(apiKeyOverride) &&
+                Boolean(envApiKey) &&
+                envApiKey !== apiKeyOverride &&
+                isInvalidGroqApiKeyError(error);
+
+            if (canFallbackToEnvKey && envApiKey) {
+                console.warn('Client-provided GROQ key rejected; retrying with server GROQ key.');
+                return await run(envApiKey);
+            }
+            throw error;
+        }
+    }
+
+    private async send(request: LlmCompletionRequest, apiKey: string): Promise<LlmCompletion> {
+        const res = await fetch(GROQ_API_URL, {
+            method: 'POST',
+            cache: 'no-store',
+            signal: request.signal,
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${apiKey}`,
+            },
+            body: JSON.stringify({
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                response_format: { type: 'json_object' },
+            }),
+        });
+
+        const rateLimit = readRateLimit(res.headers);
+
+        if (!res.ok) {
+            const errBody = await res.text();
+            throw new GroqHttpError(res.status, errBody);
+        }
+
+        const data = (await res.json()) as GroqResponse;
+        const content = data.choices?.[0]?.message?.content ?? '';
+        return { content, rateLimit };
+    }
+
+    private async openStream(request: LlmCompletionRequest, apiKey: string): Promise<LlmStream> {
+        const res = await fetch(GROQ_API_URL, {
+            method: 'POST',
+            cache: 'no-store',
+            signal: request.signal,
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${apiKey}`,
+            },
+            body: JSON.stringify({
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                response_format: { type: 'json_object' },
+                stream: true,
+            }),
+        });
+
+        const rateLimit = readRateLimit(res.headers);
+
+        if (!res.ok) {
+            const errBody = await res.text();
+            throw new GroqHttpError(res.status, errBody);
+        }
+        if (!res.body) throw new Error('Groq returned an empty stream');
+
+        return { rateLimit, chunks: readGroqStream(res.body) };
+    }
+}
+
+async function* readGroqStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    for await (const { data } of readSseEvents(body)) {
+        if (data === '[DONE]') return;
+        const chunk = JSON.parse(data) as GroqStreamChunk;
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+    }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local Ollama (`http://localhost:11434/v1`) / llama.cpp server.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+    readonly name = 'openai-compatible';
+    readonly defaultModel: string;
+    private readonly client: OpenAI;
+
+    constructor(baseURL: string | undefined, apiKey: string | undefined, defaultModel: string) {
+        this.defaultModel = defaultModel;
+        this.client = new OpenAI({
+            baseURL,
+            // Local servers ignore the key, but the SDK requires one
+            apiKey: apiKey || 'not-needed',
+            maxRetries: 0,
+        });
+    }
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        const { data, response } = await this.client.chat.completions
+            .create(
+                {
+                    model: request.model,
+                    messages: request.messages,
+                    temperature: request.temperature,
+                    response_format: { type: 'json_object' },
+                },
+                { signal: request.signal }
+            )
+            .withResponse();
+
+        return {
+            content: data.choices[0]?.message?.content ?? '',
+            rateLimit: readRateLimit(response.headers),
+        };
+    }
+
+    async stream(request: LlmCompletionRequest): Promise<LlmStream> {
+        const { data, response } = await this.client.chat.completions
+            .create(
+                {
+                    model: request.model,
+                    messages: request.messages,
+                    temperature: request.temperature,
+                    response_format: { type: 'json_object' },
+                    stream: true,
+                },
+                { signal: request.signal }
+            )
+            .withResponse();
+
+        async function* chunks(): AsyncGenerator<string> {
+            for await (const chunk of data) {
+                const text = chunk.choices[0]?.delta?.content;
+                if (text) yield text;
+            }
+        }
+
+        return { rateLimit: readRateLimit(response.headers), chunks: chunks() };
+    }
+}
+
+function hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+}
+
+/**
+ * Deterministic offline provider for tests and local development.
+ * Returns well-formed JSON for each task, derived from the prompt text so the
+ * same input always produces the same output.
+ */
+export class MockLlmProvider implements LlmProvider {
+    readonly name = 'mock';
+    readonly defaultModel = 'mock';
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        const prompt = request.messages.map((message) => message.content).join('\n');
+        const seed = hashString(prompt);
+
+        return {
+            content: JSON.stringify(this.respond(request.task, prompt, seed)),
+            rateLimit: { remaining: 1000, limit: 1000, resetInSeconds: 0 },
+        };
+    }
+
+    async stream(request: LlmCompletionRequest): Promise<LlmStream> {
+        const { content, rateLimit } = await this.complete(request);
+
+        async function* chunks(): AsyncGenerator<string> {
+            for (let i = 0; i < content.length; i += MOCK_CHUNK_SIZE) {
+                yield content.slice(i, i + MOCK_CHUNK_SIZE);
+            }
+        }
+
+        return { rateLimit, chunks: chunks() };
+    }
+
+    private respond(task: LlmTask, prompt: string, seed: number): unknown {
+        switch (task) {
+            case 'query-expansion': {
+                const query = prompt.match(/User Query: "([^"]*)"/)?.[1] || 'reddit';
+                return { intent: 'problem', queries: [query, `${query} advice`, `${query} problem`] };
+            }
+            case 'scoring': {
+                // Score every post id in the prompt between 4 and 9
+                const ids = Array.from(new Set(prompt.match(/t3_[a-z0-9]+/gi) ?? []));
+                return Object.fromEntries(ids.map((id) => [id, 4 + (hashString(id + seed) % 6)]));
+            }
+            case 'ideas':
+                return {
+                    ideas: Array.from({ length: 5 }, (_, i) => ({
+                        hook: `Mock hook for idea ${i + 1} (${seed % 100})`,
+                        concept: `Mock concept ${i + 1} generated by the mock LLM provider.`,
+                        why: 'Deterministic output for tests.',
+                        cta: 'Follow for more.',
+                    })),
+                };
+            case 'hooks':
+                return { hooks: Array.from({ length: 10 }, (_, i) => `Mock hook ${i + 1} (${seed % 100})`) };
+            case 'scripts':
+                return {
+                    variation1: `Mock script A (${seed % 100})`,
+                    variation2: `Mock script B (${seed % 100})`,
+                };
+        }
+    }
+}
+
+const TASK_ENV_SUFFIX: Record<LlmTask, string> = {
+    'query-expansion': 'QUERY_EXPANSION',
+    scoring: 'SCORING',
+    ideas: 'IDEAS',
+    hooks: 'HOOKS',
+    scripts: 'SCRIPTS',
+};
+
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+function createProvider(name: LlmProviderName): LlmProvider {
+    switch (name) {
+        case 'openai-compatible':
+            return new OpenAICompatibleProvider(
+                process.env.OPENAI_BASE_URL || undefined,
+                process.env.OPENAI_API_KEY,
+                DEFAULT_OPENAI_MODEL
+            );
+        case 'mock':
+            return new MockLlmProvider();
+        case 'groq':
+            return new GroqProvider();
+    }
+}
+
+function getProvider(name: LlmProviderName): LlmProvider {
+    let provider = providers.get(name);
+    if (!provider) {
+        provider = createProvider(name);
+        providers.set(name, provider);
+    }
+    return provider;
+}
+
+function parseProviderName(value: string | undefined): LlmProviderName | null {
+    const normalized = value?.trim().toLowerCase();
+    if (!normalized) return null;
+    if (normalized === 'groq' || normalized === 'openai-compatible' || normalized === 'mock') return normalized;
+    if (normalized === 'openai' || normalized === 'ollama') return 'openai-compatible';
+    console.warn(`Unknown LLM provider "${value}"; using groq.`);
+    return 'groq';
+}
+
+/**
+ * Resolves the provider and model for a task from the environment.
+ * LLM_MODEL only applies to tasks that stay on the default provider.
+ */
+export function resolveLlm(task: LlmTask): { provider: LlmProvider; model: string } {
+    const suffix = TASK_ENV_SUFFIX[task];
+    const defaultProviderName = parseProviderName(process.env.LLM_PROVIDER) ?? 'groq';
+    const taskProviderName = parseProviderName(process.env[`LLM_PROVIDER_${suffix}`]);
+    const provider = getProvider(taskProviderName ?? defaultProviderName);
+
+    const usesDefaultProvider = !taskProviderName || taskProviderName === defaultProviderName;
+    const model =
+        process.env[`LLM_MODEL_${suffix}`] ||
+        (usesDefaultProvider ? process.env.LLM_MODEL : undefined) ||
+        provider.defaultModel;
+
+    return { provider, model };
+}
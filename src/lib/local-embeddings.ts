@@ -0,0 +1,60 @@
+/**
+ * In-process embedding backend: runs bge-small (ONNX) on CPU via transformers.js.
+ * Produces the same vectors as the Hugging Face router (CLS pooling, normalized),
+ * so thresholds in `embeddings.ts` apply unchanged.
+ *
+ * The model is downloaded to the cache dir on first use. For offline demos, pre-download it
+ * and point LOCAL_EMBEDDING_MODEL_PATH at the parent directory; remote fetches are then disabled.
+ */
+
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+
+const DEFAULT_LOCAL_MODEL = 'Xenova/bge-small-en-v1.5';
+
+// CPU inference is memory-hungry; keep batches modest
+const LOCAL_BATCH_SIZE = 16;
+
+let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+
+export function getLocalModelName(): string {
+    return process.env.LOCAL_EMBEDDING_MODEL?.trim() || DEFAULT_LOCAL_MODEL;
+}
+
+/**
+ * Loads the model once per process. A failed load is forgotten so the next call retries.
+ */
+function getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!extractorPromise) {
+        extractorPromise = (async () => {
+            // Imported lazily so the ONNX runtime only loads when the local backend is used
+            const { env, pipeline } = await import('@huggingface/transformers');
+
+            const localPath = process.env.LOCAL_EMBEDDING_MODEL_PATH?.trim();
+            if (localPath) {
+                env.localModelPath = localPath;
+                env.allowRemoteModels = false;
+            }
+            if (process.env.LOCAL_EMBEDDING_CACHE_DIR) {
+                env.cacheDir = process.env.LOCAL_EMBEDDING_CACHE_DIR;
+            }
+
+            return pipeline('feature-extraction', getLocalModelName(), { dtype: 'fp32' });
+        })().catch((error: unknown) => {
+            extractorPromise = null;
+            throw error;
+        });
+    }
+    return extractorPromise;
+}
+
+export async function getLocalEmbeddings(texts: string[]): Promise<number[][]> {
+    const extractor = await getExtractor();
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += LOCAL_BATCH_SIZE) {
+        const output = await extractor(texts.slice(i, i + LOCAL_BATCH_SIZE), { pooling: 'cls', normalize: true });
+        vectors.push(...(output.tolist() as number[][]));
+    }
+
+    return vectors;
+}
@@ -0,0 +1,144 @@
+/**
+ * Tunables for the /api/context/filter relevance pipeline.
+ * Clients send a partial config (optionally starting from a preset); the server fills in
+ * defaults, rejects out-of-range values and echoes the effective config in `filterStats`.
+ */
+
+import { PipelineConfig, PipelinePreset } from '@/types';
+import type { FusionWeights } from '@/lib/ranking';
+
+export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
+    maxQueries: 4,
+    maxCandidates: 30,
+    minRelevance: 6,
+    highRelevance: 8,
+    upvoteWeight: 1,
+    commentWeight: 1,
+    bm25Weight: 1,
+    semanticWeight: 1,
+    heuristicWeight: 1,
+    frequencyWeight: 0.5,
+    relevanceWeight: 2,
+    fusionK: 60,
+    order: 'engagement',
+};
+
+const ORDERS: PipelineConfig['order'][] = ['engagement', 'fusion'];
+
+export const PIPELINE_PRESETS: Record<PipelinePreset, Partial<PipelineConfig>> = {
+    balanced: {},
+    // Fewer, tighter queries and a higher bar: only clearly on-topic posts
+    strict: { maxQueries: 2, minRelevance: 8, highRelevance: 9 },
+    // Cast a wider net and keep loosely related posts
+    exploratory: { maxQueries: 6, maxCandidates: 50, minRelevance: 4, highRelevance: 7 },
+};
+
+type NumericField = Exclude<keyof PipelineConfig, 'order'>;
+
+const BOUNDS: Record<NumericField, { min: number; max: number; integer: boolean }> = {
+    maxQueries: { min: 1, max: 6, integer: true },
+    maxCandidates: { min: 5, max: 60, integer: true }, // Each 10 candidates is one AI batch
+    minRelevance: { min: 0, max: 10, integer: false },
+    highRelevance: { min: 0, max: 10, integer: false },
+    upvoteWeight: { min: 0, max: 10, integer: false },
+    commentWeight: { min: 0, max: 10, integer: false },
+    bm25Weight: { min: 0, max: 10, integer: false },
+    semanticWeight: { min: 0, max: 10, integer: false },
+    heuristicWeight: { min: 0, max: 10, integer: false },
+    frequencyWeight: { min: 0, max: 10, integer: false },
+    relevanceWeight: { min: 0, max: 10, integer: false },
+    fusionK: { min: 1, max: 200, integer: true },
+};
+
+const FUSION_WEIGHT_FIELDS = ['bm25Weight', 'semanticWeight', 'heuristicWeight', 'frequencyWeight', 'relevanceWeight'] as const;
+
+function isPreset(value: unknown): value is PipelinePreset {
+    return typeof value === 'string' && Object.hasOwn(PIPELINE_PRESETS, value);
+}
+
+/**
+ * Resolves a client-supplied config against the defaults.
+ * Returns every problem at once so the client can fix them in one go.
+ */
+export function parsePipelineConfig(
+    input: unknown
+): { ok: true; config: PipelineConfig } | { ok: false; errors: string[] } {
+    if (input === undefined || input === null) return { ok: true, config: DEFAULT_PIPELINE_CONFIG };
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        return { ok: false, errors: ['pipeline must be an object'] };
+    }
+
+    const raw = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (raw.preset !== undefined && !isPreset(raw.preset)) {
+        errors.push(`pipeline.preset must be one of: ${Object.keys(PIPELINE_PRESETS).join(', ')}`);
+    }
+    const config: PipelineConfig = {
+        ...DEFAULT_PIPELINE_CONFIG,
+        ...(isPreset(raw.preset) ? PIPELINE_PRESETS[raw.preset] : {}),
+    };
+
+    for (const [field, bounds] of Object.entries(BOUNDS) as [NumericField, typeof BOUNDS[NumericField]][]) {
+        const value = raw[field];
+        if (value === undefined) continue;
+
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            errors.push(`pipeline.${field} must be a number`);
+        } else if (bounds.integer && !Number.isInteger(value)) {
+            errors.push(`pipeline.${field} must be a whole number`);
+        } else if (value < bounds.min || value > bounds.max) {
+            errors.push(`pipeline.${field} must be between ${bounds.min} and ${bounds.max}`);
+        } else {
+            config[field] = value;
+        }
+    }
+
+    if (raw.order !== undefined) {
+        if (ORDERS.includes(raw.order as PipelineConfig['order'])) config.order = raw.order as PipelineConfig['order'];
+        else errors.push(`pipeline.order must be one of: ${ORDERS.join(', ')}`);
+    }
+
+    if (errors.length === 0 && config.highRelevance < config.minRelevance) {
+        errors.push('pipeline.highRelevance must be at least pipeline.minRelevance');
+    }
+    if (errors.length === 0 && config.upvoteWeight === 0 && config.commentWeight === 0) {
+        errors.push('pipeline.upvoteWeight and pipeline.commentWeight cannot both be 0');
+    }
+    if (errors.length === 0 && FUSION_WEIGHT_FIELDS.every((field) => config[field] === 0)) {
+        errors.push('At least one rank-fusion weight must be above 0');
+    }
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, config };
+}
+
+/**
+ * Compact, stable cache-key fragment for a resolved config.
+ */
+export function pipelineConfigKey(config: PipelineConfig): string {
+    return (Object.keys(DEFAULT_PIPELINE_CONFIG) as (keyof PipelineConfig)[]).map((field) => config[field]).join('-');
+}
+
+/**
+ * Rank-fusion weights keyed by component, as `fuseRankings` expects them.
+ */
+export function fusionWeights(config: PipelineConfig): FusionWeights {
+    return {
+        bm25: config.bm25Weight,
+        semantic: config.semanticWeight,
+        heuristic: config.heuristicWeight,
+        frequency: config.frequencyWeight,
+        relevance: config.relevanceWeight,
+    };
+}
+
+/**
+ * Weighted engagement used to order posts within a relevance tier, summed across a post's cluster.
+ */
+export function engagementScore(
+    post: { upvotes: number; comments: number; clusterUpvotes?: number; clusterComments?: number },
+    config: PipelineConfig
+): number {
+    return (post.clusterUpvotes ?? post.upvotes) * config.upvoteWeight
+        + (post.clusterComments ?? post.comments) * config.commentWeight;
+}
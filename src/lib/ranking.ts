@@ -0,0 +1,120 @@
+/**
+ * Lexical scoring and rank fusion for the context pipeline.
+ * BM25 catches literal matches (names, products, exact phrases) that embeddings can miss;
+ * reciprocal rank fusion combines it with the semantic, heuristic and AI signals without
+ * having to normalize their very different scales.
+ */
+
+import { RedditPost } from '@/types';
+
+export type FusionComponent = 'bm25' | 'semantic' | 'heuristic' | 'frequency' | 'relevance';
+
+export type FusionWeights = Record<FusionComponent, number>;
+
+// BM25 parameters; the usual defaults work well for short Reddit posts
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Posts are scored on the title plus the start of the body, like the embeddings
+const SELFTEXT_CHARS = 500;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+    'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'with', 'you',
+]);
+
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function postText(post: RedditPost): string {
+    return `${post.title} ${post.selftext?.slice(0, SELFTEXT_CHARS) || ''}`;
+}
+
+/**
+ * Okapi BM25 of each post against `query`, with document frequencies taken from `posts` itself.
+ * Returns a score per post id (0 when no query term appears).
+ */
+export function bm25Scores(posts: RedditPost[], query: string): Map<string, number> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const docs = posts.map((post) => tokenize(postText(post)));
+    const scores = new Map<string, number>();
+    if (posts.length === 0 || queryTerms.length === 0) {
+        posts.forEach((post) => scores.set(post.id, 0));
+        return scores;
+    }
+
+    const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+    const docFrequency = new Map<string, number>();
+    for (const doc of docs) {
+        for (const term of new Set(doc)) docFrequency.set(term, (docFrequency.get(term) ?? 0) + 1);
+    }
+
+    posts.forEach((post, i) => {
+        const doc = docs[i];
+        const termCounts = new Map<string, number>();
+        for (const term of doc) termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+
+        let score = 0;
+        for (const term of queryTerms) {
+            const tf = termCounts.get(term) ?? 0;
+            if (tf === 0) continue;
+            const df = docFrequency.get(term) ?? 0;
+            const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+            score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / avgLength)));
+        }
+        scores.set(post.id, score);
+    });
+
+    return scores;
+}
+
+/**
+ * True when a multi-word query appears verbatim (ignoring case, punctuation and quotes) in the title.
+ * Single words are excluded: Reddit search already matched them, so they say little about relevance.
+ */
+export function titleContainsPhrase(post: RedditPost, query: string): boolean {
+    const phrase = tokenize(query.replace(/"/g, '')).join(' ');
+    if (!phrase.includes(' ')) return false;
+    return ` ${tokenize(post.title).join(' ')} `.includes(` ${phrase} `);
+}
+
+function componentValue(post: RedditPost, component: FusionComponent): number | undefined {
+    switch (component) {
+        case 'bm25': return post.bm25Score;
+        case 'semantic': return post.semanticScore;
+        case 'heuristic': return post.hScore;
+        case 'frequency': return post.frequencyBonus;
+        case 'relevance': return post.relevanceScore;
+    }
+}
+
+/**
+ * Weighted reciprocal rank fusion: each component contributes weight / (k + rank).
+ * Tied values share a rank, and posts missing a component get nothing from it,
+ * so signals that aren't computed yet (e.g. AI relevance before scoring) simply drop out.
+ */
+export function fuseRankings(posts: RedditPost[], weights: FusionWeights, k: number): Map<string, number> {
+    const fused = new Map<string, number>(posts.map((post) => [post.id, 0]));
+
+    for (const component of Object.keys(weights) as FusionComponent[]) {
+        const weight = weights[component];
+        if (weight <= 0) continue;
+
+        const ranked = posts
+            .map((post) => ({ id: post.id, value: componentValue(post, component) }))
+            .filter((entry): entry is { id: string; value: number } => typeof entry.value === 'number' && Number.isFinite(entry.value))
+            .sort((a, b) => b.value - a.value);
+
+        let rank = 0;
+        ranked.forEach((entry, i) => {
+            if (i === 0 || entry.value !== ranked[i - 1].value) rank = i + 1;
+            fused.set(entry.id, (fused.get(entry.id) ?? 0) + weight / (k + rank));
+        });
+    }
+
+    return fused;
+}
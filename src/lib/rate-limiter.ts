@@ -1,69 +1,184 @@
 /**
- * IP-based rate limiter for Reddit API requests.
- * Enforces 1 request per 2 seconds per IP to respect Reddit's guidelines.
+ * Token-bucket rate limiter with named per-route policies.
+ * Each client gets a bucket per policy that holds up to `capacity` tokens (the burst)
+ * and refills continuously at `refillPerSecond`. Clients are keyed by IP, read from the
+ * X-Forwarded-For entry added by the trusted proxy (TRUSTED_PROXY_HOPS, default 1).
+ * Policies keyed by `apiKey` give each user's own Groq key its own bucket, so users sharing
+ * a NAT who bring their own keys don't drain each other's budget. Those buckets are scoped to
+ * the client IP and all keys from one IP share a ceiling, so inventing keys doesn't buy requests.
  */
 
-interface RateLimitEntry {
-    lastRequest: number;
-    requestCount: number;
+import { createHash } from 'crypto';
+
+export interface RateLimitPolicy {
+    capacity: number; // Max burst size
+    refillPerSecond: number; // Sustained rate
+    keyBy: 'ip' | 'apiKey';
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetSeconds: number; // Until the bucket is full again
+    retryAfter?: number; // ms until the next token, when limited
+    policy: string;
 }
 
-class RateLimiter {
-    private limits: Map<string, RateLimitEntry> = new Map();
-    private readonly windowMs: number;
-    private readonly maxRequests: number;
+export const RATE_LIMIT_POLICIES = {
+    // Keyword search: bursts of 10, then 1 request / 2s
+    search: { capacity: 10, refillPerSecond: 0.5, keyBy: 'ip' },
+    // Post detail drawer: bursts of 10, then 1 request / 2s
+    'reddit-post': { capacity: 10, refillPerSecond: 0.5, keyBy: 'ip' },
+    // Community search and profile pages (a profile costs three Reddit calls): bursts of 10, then 1 request / 3s
+    subreddits: { capacity: 10, refillPerSecond: 1 / 3, keyBy: 'ip' },
+    // Author pages also cost three Reddit calls each
+    users: { capacity: 10, refillPerSecond: 1 / 3, keyBy: 'ip' },
+    // Comment search fetches up to 10 comment trees per query: 3 bursts, then 1 / 20s
+    'comment-search': { capacity: 3, refillPerSecond: 0.05, keyBy: 'ip' },
+    // Context search fans out to Reddit, HF and Groq: 3 bursts, then 1 / 20s
+    'context-filter': { capacity: 3, refillPerSecond: 0.05, keyBy: 'apiKey' },
+    // Idea generation fetches 10 comment trees plus two LLM calls: 3 bursts, then 1 / 30s
+    analyze: { capacity: 3, refillPerSecond: 1 / 30, keyBy: 'apiKey' },
+} satisfies Record<string, RateLimitPolicy>;
 
-    constructor(windowMs = 2000, maxRequests = 1) {
-        this.windowMs = windowMs;
-        this.maxRequests = maxRequests;
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
 
-        // Clean up old entries every 60 seconds
+export class TokenBucketLimiter {
+    private buckets: Map<string, Bucket> = new Map();
+    private readonly policy: RateLimitPolicy;
+    private readonly name: string;
+
+    constructor(name: string, policy: RateLimitPolicy) {
+        this.name = name;
+        this.policy = policy;
+
+        // Drop buckets that have been idle long enough to be full again every 60 seconds
         setInterval(() => this.cleanup(), 60000);
     }
 
     /**
-     * Check if a request from the given IP is allowed.
-     * Returns { allowed: true } or { allowed: false, retryAfter: ms }
+     * Takes `cost` tokens from the bucket for `key` if available.
      */
-    check(ip: string): { allowed: boolean; retryAfter?: number } {
+    check(key: string, cost = 1): RateLimitResult {
+        const { capacity, refillPerSecond } = this.policy;
         const now = Date.now();
-        const entry = this.limits.get(ip);
+        const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
 
-        if (!entry) {
-            this.limits.set(ip, { lastRequest: now, requestCount: 1 });
-            return { allowed: true };
-        }
+        // Refill for the time elapsed since the last check
+        const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+        bucket.tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond);
+        bucket.updatedAt = now;
 
-        const elapsed = now - entry.lastRequest;
+        const allowed = bucket.tokens >= cost;
+        if (allowed) bucket.tokens -= cost;
+        this.buckets.set(key, bucket);
 
-        if (elapsed >= this.windowMs) {
-            // Window has passed, reset
-            entry.lastRequest = now;
-            entry.requestCount = 1;
-            return { allowed: true };
+        const result: RateLimitResult = {
+            allowed,
+            limit: capacity,
+            remaining: Math.floor(bucket.tokens),
+            resetSeconds: Math.ceil((capacity - bucket.tokens) / refillPerSecond),
+            policy: this.name,
+        };
+        if (!allowed) {
+            result.retryAfter = Math.ceil(((cost - bucket.tokens) / refillPerSecond) * 1000);
         }
-
-        if (entry.requestCount < this.maxRequests) {
-            entry.requestCount++;
-            return { allowed: true };
-        }
-
-        // Rate limited
-        const retryAfter = this.windowMs - elapsed;
-        return { allowed: false, retryAfter };
+        return result;
     }
 
     private cleanup() {
         const now = Date.now();
-        const cutoff = now - this.windowMs * 10; // Keep entries for 10x the window
+        const fullAfterMs = (this.policy.capacity / this.policy.refillPerSecond) * 1000;
 
-        for (const [ip, entry] of this.limits.entries()) {
-            if (entry.lastRequest < cutoff) {
-                this.limits.delete(ip);
+        for (const [key, bucket] of this.buckets.entries()) {
+            if (now - bucket.updatedAt > fullAfterMs) {
+                this.buckets.delete(key);
             }
         }
     }
 }
 
-// Singleton instance — 1 request per 2 seconds per IP
-export const rateLimiter = new RateLimiter(2000, 1);
+const limiters = new Map<string, TokenBucketLimiter>();
+
+function getLimiter(policyName: RateLimitPolicyName, scale = 1): TokenBucketLimiter {
+    const id = scale === 1 ? policyName : `${policyName}*${scale}`;
+    let limiter = limiters.get(id);
+    if (!limiter) {
+        const { capacity, refillPerSecond, keyBy } = RATE_LIMIT_POLICIES[policyName];
+        limiter = new TokenBucketLimiter(policyName, { capacity: capacity * scale, refillPerSecond: refillPerSecond * scale, keyBy });
+        limiters.set(id, limiter);
+    }
+    return limiter;
+}
+
+// Reverse proxies in front of the app that append to X-Forwarded-For (1 for Vercel or a single
+// load balancer). Next.js only fills the header in when it's missing, so without a proxy it is client-controlled.
+const TRUSTED_PROXY_HOPS = Math.max(1, Number.parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10) || 1);
+
+// How many users' own API keys one client IP can spend in parallel on an `apiKey` policy
+const API_KEYS_PER_CLIENT = 5;
+
+function hashKey(...parts: string[]): string {
+    return createHash('sha256').update(parts.join('\n')).digest('hex').slice(0, 32);
+}
+
+/**
+ * Resolves the bucket key for a request: the client IP as seen by the outermost trusted proxy.
+ * Each proxy appends the address it received the request from, so entries to the left of
+ * that one are client-supplied and ignored. Without a forwarded address (self-hosted with
+ * no proxy in front) clients are told apart by a hash of their User-Agent and Accept-Language,
+ * so distinct browsers don't share one bucket.
+ */
+export function getClientKey(request: Request): string {
+    const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+    const ip = forwarded[forwarded.length - TRUSTED_PROXY_HOPS];
+    if (ip) return `ip:${ip}`;
+
+    const userAgent = request.headers.get('user-agent') ?? '';
+    const language = request.headers.get('accept-language') ?? '';
+    return `anon:${hashKey(userAgent, language)}`;
+}
+
+/**
+ * Checks a request against a named policy. On `apiKey` policies a request carrying its own
+ * Groq key draws from a bucket for that key on this client, after a shared bucket for the client
+ * sized for API_KEYS_PER_CLIENT keys.
+ */
+export function checkRateLimit(request: Request, policyName: RateLimitPolicyName): RateLimitResult {
+    const clientKey = getClientKey(request);
+    const apiKey = RATE_LIMIT_POLICIES[policyName].keyBy === 'apiKey' ? request.headers.get('x-groq-api-key') : null;
+    if (!apiKey) {
+        return getLimiter(policyName).check(clientKey);
+    }
+
+    const shared = getLimiter(policyName, API_KEYS_PER_CLIENT).check(clientKey);
+    if (!shared.allowed) return shared;
+    return getLimiter(policyName).check(`key:${hashKey(apiKey, clientKey)}`);
+}
+
+/**
+ * Standard `RateLimit-*` headers (IETF draft) describing the caller's bucket.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+    const policy = RATE_LIMIT_POLICIES[result.policy as RateLimitPolicyName];
+    const windowSeconds = policy ? Math.ceil(policy.capacity / policy.refillPerSecond) : result.resetSeconds;
+    const headers: Record<string, string> = {
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(result.resetSeconds),
+        'RateLimit-Policy': `${result.limit};w=${windowSeconds}`,
+    };
+    if (!result.allowed) {
+        headers['Retry-After'] = String(Math.ceil((result.retryAfter || 1000) / 1000));
+    }
+    return headers;
+}
@@ -0,0 +1,130 @@
+/**
+ * Optional Reddit OAuth (application-only, client-credentials grant).
+ * When REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET are set, requests go to oauth.reddit.com
+ * with a bearer token and a proper app user agent, which gets a much higher quota than
+ * the public JSON endpoint. Without them, callers keep using the public endpoint.
+ */
+
+import { RedditApiError } from '@/lib/reddit-scheduler';
+
+const TOKEN_URL = 'https://www.reddit.com/api/v1/access_token';
+const OAUTH_BASE_URL = 'https://oauth.reddit.com';
+const PUBLIC_HOST_PATTERN = /^https:\/\/(www\.|old\.)?reddit\.com/;
+const DEFAULT_APP_USER_AGENT = 'web:reddit-scraper:0.1.0';
+// Refresh a minute early so in-flight requests never carry an expired token
+const EXPIRY_MARGIN_MS = 60000;
+// Token requests run before a queued request's own timeout starts, so they need their own
+const TOKEN_TIMEOUT_MS = 8000;
+
+interface AccessTokenResponse {
+    access_token?: string;
+    token_type?: string;
+    expires_in?: number;
+    error?: string;
+}
+
+interface CachedToken {
+    value: string;
+    expiresAt: number;
+}
+
+export interface RedditAuth {
+    token: string;
+    userAgent: string;
+}
+
+let cachedToken: CachedToken | null = null;
+let pendingToken: Promise<CachedToken> | null = null;
+
+export function isRedditOAuthConfigured(): boolean {
+    return Boolean(process.env.REDDIT_CLIENT_ID && process.env.REDDIT_CLIENT_SECRET);
+}
+
+/**
+ * Reddit asks API clients for a unique, descriptive user agent.
+ */
+export function getAppUserAgent(): string {
+    return process.env.REDDIT_USER_AGENT || DEFAULT_APP_USER_AGENT;
+}
+
+/**
+ * Fetches a new token. Throws a `timeout` RedditApiError when Reddit doesn't answer
+ * within TOKEN_TIMEOUT_MS, since every queued request waits on this call.
+ */
+async function requestToken(): Promise<CachedToken> {
+    const credentials = Buffer.from(
+        `${process.env.REDDIT_CLIENT_ID}:${process.env.REDDIT_CLIENT_SECRET}`
+    ).toString('base64');
+
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), TOKEN_TIMEOUT_MS);
+    let data: AccessTokenResponse;
+    try {
+        const res = await fetch(TOKEN_URL, {
+            method: 'POST',
+            headers: {
+                Authorization: `Basic ${credentials}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'User-Agent': getAppUserAgent(),
+            },
+            body: new URLSearchParams({ grant_type: 'client_credentials' }).toString(),
+            signal: controller.signal,
+        });
+
+        if (!res.ok) {
+            throw new Error(`Reddit token request failed: ${res.status}`);
+        }
+
+        data = (await res.json()) as AccessTokenResponse;
+    } catch (error) {
+        if (controller.signal.aborted) {
+            throw new RedditApiError('timeout', 'Reddit token request timed out');
+        }
+        throw error;
+    } finally {
+        clearTimeout(id);
+    }
+
+    if (!data.access_token) {
+        throw new Error(`Reddit token request failed: ${data.error || 'no access_token in response'}`);
+    }
+
+    return {
+        value: data.access_token,
+        expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000 - EXPIRY_MARGIN_MS,
+    };
+}
+
+/**
+ * Returns a valid bearer token and app user agent, fetching or refreshing the
+ * token as needed. Concurrent callers share one token request.
+ * Returns null when OAuth isn't configured.
+ */
+export async function getRedditAuth(): Promise<RedditAuth | null> {
+    if (!isRedditOAuthConfigured()) return null;
+
+    if (!cachedToken || cachedToken.expiresAt <= Date.now()) {
+        if (!pendingToken) {
+            pendingToken = requestToken().finally(() => {
+                pendingToken = null;
+            });
+        }
+        cachedToken = await pendingToken;
+    }
+
+    return { token: cachedToken.value, userAgent: getAppUserAgent() };
+}
+
+/**
+ * Drops the cached token, e.g. after Reddit rejects it with a 401.
+ */
+export function invalidateRedditToken(): void {
+    cachedToken = null;
+}
+
+/**
+ * Rewrites a public reddit.com URL to its oauth.reddit.com equivalent.
+ */
+export function toOAuthUrl(url: string): string {
+    return url.replace(PUBLIC_HOST_PATTERN, OAUTH_BASE_URL);
+}
@@ -0,0 +1,283 @@
+/**
+ * Structured Reddit search queries: field clauses (`title:`, `author:`, `self:` ...),
+ * exact phrases, NOT and a single AND/OR operator.
+ * Serializes to Reddit's search syntax and parses raw queries back so the builder and
+ * the free-text input stay in sync. Pure, so it runs in the search form and API routes alike.
+ */
+
+import { QueryClause, QueryField, StructuredQuery } from '@/types';
+
+// Matches the keyword length limit in /api/reddit
+export const MAX_QUERY_LENGTH = 200;
+
+export const QUERY_FIELDS: Array<{ field: QueryField; label: string }> = [
+    { field: 'text', label: 'Any text' },
+    { field: 'title', label: 'Title' },
+    { field: 'selftext', label: 'Body' },
+    { field: 'author', label: 'Author' },
+    { field: 'subreddit', label: 'Subreddit' },
+    { field: 'flair', label: 'Flair' },
+    { field: 'site', label: 'Link domain' },
+    { field: 'url', label: 'Link URL' },
+    { field: 'self', label: 'Text post' },
+];
+
+const FIELD_NAMES = new Set<string>(QUERY_FIELDS.map(({ field }) => field).filter((field) => field !== 'text'));
+
+const SELF_VALUES: Record<string, 'yes' | 'no'> = { yes: 'yes', true: 'yes', '1': 'yes', no: 'no', false: 'no', '0': 'no' };
+
+type Token =
+    | { kind: 'op'; op: 'AND' | 'OR' | 'NOT' }
+    | { kind: 'paren'; open: boolean }
+    | { kind: 'term'; field: QueryField; value: string; quoted: boolean; negate: boolean };
+
+let nextClauseId = 0;
+
+export function createClause(field: QueryField = 'text', value = '', options: Partial<Omit<QueryClause, 'id' | 'field' | 'value'>> = {}): QueryClause {
+    nextClauseId += 1;
+    return { id: `clause-${nextClauseId}`, field, value, ...options };
+}
+
+export function emptyQuery(): StructuredQuery {
+    return { operator: 'AND', clauses: [createClause()] };
+}
+
+/**
+ * Drops the "u/" / "r/" prefixes people paste into author and subreddit values.
+ */
+function cleanValue(field: QueryField, value: string): string {
+    const trimmed = value.trim().replace(/\s+/g, ' ');
+    if (field === 'author') return trimmed.replace(/^\/?u(ser)?\//i, '');
+    if (field === 'subreddit') return trimmed.replace(/^\/?r\//i, '');
+    if (field === 'self') return SELF_VALUES[trimmed.toLowerCase()] ?? trimmed;
+    return trimmed;
+}
+
+function serializeClause(clause: QueryClause, operator: StructuredQuery['operator']): string {
+    const value = cleanValue(clause.field, clause.value).replace(/"/g, '');
+    const quoted = clause.exact || (clause.field !== 'text' && value.includes(' '));
+    let term = quoted ? `"${value}"` : value;
+
+    if (clause.field !== 'text') {
+        term = `${clause.field}:${term}`;
+    } else if (!quoted && value.includes(' ') && (operator === 'OR' || clause.negate)) {
+        // Keep loose multi-word terms together under OR / NOT
+        term = `(${term})`;
+    }
+    return clause.negate ? `NOT ${term}` : term;
+}
+
+function isLooseText(clause: QueryClause): boolean {
+    return clause.field === 'text' && !clause.exact && !clause.negate;
+}
+
+/**
+ * Builds the Reddit search string. Clauses with empty values are skipped.
+ * AND is Reddit's default, so it is only spelled out between loose text terms
+ * that would otherwise read back as one clause.
+ */
+export function serializeQuery(query: StructuredQuery): string {
+    const clauses = query.clauses.filter((clause) => cleanValue(clause.field, clause.value) !== '');
+
+    return clauses
+        .map((clause, i) => {
+            const term = serializeClause(clause, query.operator);
+            if (i === 0) return term;
+            if (query.operator === 'OR') return `OR ${term}`;
+            return isLooseText(clauses[i - 1]) && isLooseText(clause) ? `AND ${term}` : term;
+        })
+        .join(' ');
+}
+
+/**
+ * Problems that would make Reddit ignore or misread the query, for display in the builder.
+ */
+export function validateQuery(query: StructuredQuery): string[] {
+    const errors: string[] = [];
+    const filled = query.clauses.filter((clause) => cleanValue(clause.field, clause.value) !== '');
+
+    if (filled.length === 0) errors.push('Add at least one search term');
+    if (filled.length > 0 && filled.every((clause) => clause.negate)) {
+        errors.push('At least one term must not be excluded');
+    }
+    if (query.operator === 'OR' && filled.some((clause) => clause.negate)) {
+        errors.push('Excluded terms only work with "match all"');
+    }
+    for (const clause of filled) {
+        const value = cleanValue(clause.field, clause.value);
+        if (clause.field === 'self' && value !== 'yes' && value !== 'no') {
+            errors.push('Text post must be "yes" or "no"');
+        }
+        if (value.includes('"')) errors.push(`Remove quotes from "${value}"; use the exact-phrase toggle instead`);
+    }
+
+    const serialized = serializeQuery(query);
+    if (serialized.length > MAX_QUERY_LENGTH) {
+        errors.push(`Query is ${serialized.length} characters; the limit is ${MAX_QUERY_LENGTH}`);
+    }
+    return errors;
+}
+
+function tokenize(raw: string): Token[] | string {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < raw.length) {
+        const char = raw[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        if (char === '(' || char === ')') {
+            tokens.push({ kind: 'paren', open: char === '(' });
+            i++;
+            continue;
+        }
+
+        let negate = false;
+        if (char === '-' && i + 1 < raw.length && !/\s/.test(raw[i + 1])) {
+            negate = true;
+            i++;
+        }
+
+        // field:value or field:"quoted value"
+        const fieldMatch = /^([a-z_]+):/i.exec(raw.slice(i));
+        let field: QueryField = 'text';
+        if (fieldMatch && FIELD_NAMES.has(fieldMatch[1].toLowerCase())) {
+            field = fieldMatch[1].toLowerCase() as QueryField;
+            i += fieldMatch[0].length;
+        }
+
+        if (raw[i] === '"') {
+            const end = raw.indexOf('"', i + 1);
+            if (end === -1) return 'Unclosed quote';
+            tokens.push({ kind: 'term', field, value: raw.slice(i + 1, end), quoted: true, negate });
+            i = end + 1;
+            continue;
+        }
+
+        const wordMatch = /^[^\s()]+/.exec(raw.slice(i));
+        const word = wordMatch?.[0] ?? '';
+        i += word.length;
+        if (!word) {
+            if (field !== 'text') return `Missing value after "${field}:"`;
+            if (negate) return 'Use NOT instead of "-" before a group';
+            continue;
+        }
+
+        if (field === 'text' && !negate && (word === 'AND' || word === 'OR' || word === 'NOT')) {
+            tokens.push({ kind: 'op', op: word });
+        } else {
+            tokens.push({ kind: 'term', field, value: word, quoted: false, negate });
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Parses a raw Reddit query into clauses. Queries the builder can't represent
+ * (nested groups, mixed AND/OR) are rejected with a reason so the caller can keep them as text.
+ * Adjacent plain words become one text clause, so "home espresso title:budget" has two clauses.
+ */
+export function parseRedditQuery(raw: string): { ok: true; query: StructuredQuery } | { ok: false; error: string } {
+    const tokens = tokenize(raw);
+    if (typeof tokens === 'string') return { ok: false, error: tokens };
+
+    const clauses: QueryClause[] = [];
+    const operators = new Set<'AND' | 'OR'>();
+    let pendingOp: 'AND' | 'OR' | null = null;
+    let pendingNot = false;
+    let implicitJoin = false;
+    // Whether the last clause may absorb the next plain word
+    let lastIsOpenText = false;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (token.kind === 'op') {
+            if (token.op === 'NOT') {
+                if (pendingNot) return { ok: false, error: 'Repeated NOT' };
+                pendingNot = true;
+                continue;
+            }
+            if (clauses.length === 0 || pendingOp || pendingNot) return { ok: false, error: `Misplaced ${token.op}` };
+            pendingOp = token.op;
+            continue;
+        }
+
+        let clause: QueryClause;
+        if (token.kind === 'paren') {
+            if (!token.open) return { ok: false, error: 'Unmatched ")"' };
+            // Only a group of plain words is supported: "(budget espresso)"
+            const words: string[] = [];
+            let j = i + 1;
+            for (; j < tokens.length; j++) {
+                const inner = tokens[j];
+                if (inner.kind === 'paren' && !inner.open) break;
+                if (inner.kind !== 'term' || inner.field !== 'text' || inner.quoted || inner.negate) {
+                    return { ok: false, error: 'Groups in parentheses can only contain plain words' };
+                }
+                words.push(inner.value);
+            }
+            if (j === tokens.length) return { ok: false, error: 'Unclosed "("' };
+            if (words.length === 0) return { ok: false, error: 'Empty parentheses' };
+            i = j;
+            clause = createClause('text', words.join(' '), { negate: pendingNot || undefined });
+        } else {
+            const negate = token.negate || pendingNot;
+            const value = cleanValue(token.field, token.value);
+            const plainWord = token.field === 'text' && !token.quoted && !negate;
+
+            if (plainWord && lastIsOpenText && !pendingOp) {
+                clauses[clauses.length - 1].value += ` ${value}`;
+                continue;
+            }
+            clause = createClause(token.field, value, {
+                exact: (token.field === 'text' && token.quoted) || undefined,
+                negate: negate || undefined,
+            });
+        }
+
+        if (clauses.length > 0) {
+            if (pendingOp) operators.add(pendingOp);
+            else implicitJoin = true;
+        }
+        clauses.push(clause);
+        lastIsOpenText = token.kind === 'term' && isLooseText(clause);
+        pendingOp = null;
+        pendingNot = false;
+    }
+
+    if (pendingOp || pendingNot) return { ok: false, error: 'Query ends with an operator' };
+    if (operators.size > 1 || (operators.has('OR') && implicitJoin)) {
+        return { ok: false, error: 'Mixing AND and OR needs grouping the builder can\'t show' };
+    }
+    if (clauses.length === 0) return { ok: true, query: emptyQuery() };
+
+    return { ok: true, query: { operator: operators.has('OR') ? 'OR' : 'AND', clauses } };
+}
+
+/**
+ * True when the query is more than a single run of keywords:
+ * fields, quoted phrases, operators, negation or several clauses.
+ */
+export function hasSearchSyntax(raw: string): boolean {
+    const parsed = parseRedditQuery(raw);
+    if (!parsed.ok) return /\b(AND|OR|NOT)\b|[()":]/.test(raw);
+    const { clauses } = parsed.query;
+    return clauses.length > 1 || clauses.some((clause) => clause.field !== 'text' || clause.exact || clause.negate);
+}
+
+/**
+ * The words a query is about, without field names, operators or excluded terms.
+ * Used for lexical and embedding scoring, which would otherwise match on syntax.
+ */
+export function queryText(raw: string): string {
+    const parsed = parseRedditQuery(raw);
+    if (!parsed.ok) return raw;
+    const terms = parsed.query.clauses
+        .filter((clause) => !clause.negate && ['text', 'title', 'selftext', 'flair'].includes(clause.field))
+        .map((clause) => clause.value);
+    return terms.length > 0 ? terms.join(' ') : raw;
+}
@@ -0,0 +1,281 @@
+/**
+ * Process-wide outbound queue for Reddit requests.
+ * Every call to reddit.com goes through here so concurrent routes share one budget:
+ * - at most REDDIT_MAX_CONCURRENT requests in flight and REDDIT_REQUESTS_PER_MINUTE per minute
+ * - 429s pause the whole queue (honoring Retry-After) and are retried with exponential backoff;
+ *   retries go back to the front of the queue, so they count against both budgets like any request
+ * - identical URLs requested while one is already queued or in flight share its result
+ * Failures surface as RedditApiError so routes can map them to proper status codes.
+ * With OAuth configured (see reddit-auth.ts), requests go to oauth.reddit.com with a bearer token.
+ */
+
+import { getRedditAuth, invalidateRedditToken, isRedditOAuthConfigured, toOAuthUrl } from '@/lib/reddit-auth';
+
+// Browser user agent for the public endpoint, which throttles non-browser agents harder
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+const DEFAULT_MAX_CONCURRENT = 3;
+const DEFAULT_REQUESTS_PER_MINUTE = 30;
+// OAuth clients get 100 requests/minute; leave headroom for other instances sharing the app
+const DEFAULT_OAUTH_REQUESTS_PER_MINUTE = 90;
+const DEFAULT_TIMEOUT_MS = 8000;
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+export type RedditErrorKind = 'rate_limited' | 'not_found' | 'http' | 'timeout' | 'network' | 'invalid_response';
+
+export class RedditApiError extends Error {
+    kind: RedditErrorKind;
+    status?: number; // Upstream HTTP status, when Reddit answered
+    retryAfterSeconds?: number;
+
+    constructor(kind: RedditErrorKind, message: string, status?: number, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'RedditApiError';
+        this.kind = kind;
+        this.status = status;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+
+    /**
+     * Status code a route should answer with when this error reaches the client.
+     */
+    get httpStatus(): number {
+        switch (this.kind) {
+            case 'rate_limited':
+                return 429;
+            case 'not_found':
+                return 404;
+            case 'timeout':
+                return 504;
+            default:
+                return 502;
+        }
+    }
+}
+
+export interface RedditRequestOptions {
+    method?: 'GET' | 'POST';
+    timeout?: number;
+}
+
+interface QueuedRequest {
+    url: string;
+    options: RedditRequestOptions;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+    attempt: number; // 429 retries so far
+    reauthenticated: boolean;
+}
+
+// Returned by an attempt that should be queued again rather than settled
+const RETRY = Symbol('retry');
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+    const parsed = Number.parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Parses Retry-After as either delta-seconds or an HTTP date. Returns ms.
+ */
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export class RedditScheduler {
+    private readonly maxConcurrent: number;
+    private readonly requestsPerMinute: number;
+    private queue: QueuedRequest[] = [];
+    private active = 0;
+    private startedAt: number[] = []; // Start times within the last minute
+    private pausedUntil = 0;
+    private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    private inflight = new Map<string, Promise<unknown>>();
+
+    constructor(maxConcurrent: number, requestsPerMinute: number) {
+        this.maxConcurrent = maxConcurrent;
+        this.requestsPerMinute = requestsPerMinute;
+    }
+
+    /**
+     * Queues a request and resolves with the parsed JSON body.
+     * Identical requests already queued or in flight share one upstream call.
+     */
+    fetchJson<T>(url: string, options: RedditRequestOptions = {}): Promise<T> {
+        const key = `${options.method ?? 'GET'} ${url}`;
+        const existing = this.inflight.get(key);
+        if (existing) return existing as Promise<T>;
+
+        const task = new Promise<unknown>((resolve, reject) => {
+            this.queue.push({ url, options, resolve, reject, attempt: 0, reauthenticated: false });
+            this.pump();
+        }).finally(() => this.inflight.delete(key));
+
+        this.inflight.set(key, task);
+        return task as Promise<T>;
+    }
+
+    /**
+     * Starts queued requests while the concurrency and per-minute budgets allow,
+     * otherwise schedules a wake-up for when the next slot frees.
+     */
+    private pump(): void {
+        while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+            const now = Date.now();
+            this.startedAt = this.startedAt.filter((t) => now - t < 60000);
+
+            const waitMs = Math.max(
+                this.pausedUntil - now,
+                this.startedAt.length >= this.requestsPerMinute ? this.startedAt[0] + 60000 - now : 0
+            );
+            if (waitMs > 0) {
+                this.scheduleWake(waitMs);
+                return;
+            }
+
+            const request = this.queue.shift()!;
+            this.active++;
+            this.startedAt.push(now);
+            this.execute(request)
+                .then((result) => {
+                    // Retries keep their place ahead of newer requests
+                    if (result === RETRY) this.queue.unshift(request);
+                    else request.resolve(result);
+                }, request.reject)
+                .finally(() => {
+                    this.active--;
+                    this.pump();
+                });
+        }
+    }
+
+    private scheduleWake(ms: number): void {
+        if (this.wakeTimer) return;
+        this.wakeTimer = setTimeout(() => {
+            this.wakeTimer = null;
+            this.pump();
+        }, ms);
+    }
+
+    /**
+     * Sends one attempt. Returns RETRY after a 429 (with the queue paused for the backoff) or a
+     * token refresh, so the caller re-queues the request instead of holding its slot while waiting.
+     */
+    private async execute(request: QueuedRequest): Promise<unknown> {
+        const res = await this.send(request);
+
+        if (res.status === 401 && isRedditOAuthConfigured() && !request.reauthenticated) {
+            // Token revoked or expired early; fetch a new one and retry once
+            invalidateRedditToken();
+            request.reauthenticated = true;
+            return RETRY;
+        }
+
+        if (res.status === 429) {
+            const retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+            const backoffMs = Math.min(MAX_BACKOFF_MS, retryAfterMs ?? BASE_BACKOFF_MS * 2 ** request.attempt);
+
+            if (request.attempt >= MAX_RETRIES) {
+                throw new RedditApiError(
+                    'rate_limited',
+                    'Reddit Rate Limit Exceeded (429)',
+                    429,
+                    Math.ceil(backoffMs / 1000)
+                );
+            }
+
+            // A 429 applies to our whole IP, so hold back every queued request too
+            this.pausedUntil = Math.max(this.pausedUntil, Date.now() + backoffMs);
+            console.warn(`Reddit returned 429, backing off ${backoffMs}ms (attempt ${request.attempt + 1}/${MAX_RETRIES})`);
+            request.attempt++;
+            return RETRY;
+        }
+
+        if (res.status === 404) {
+            throw new RedditApiError('not_found', 'Reddit resource not found (404)', 404);
+        }
+
+        if (!res.ok) {
+            throw new RedditApiError('http', `Reddit API Error: ${res.status}`, res.status);
+        }
+
+        try {
+            return await res.json();
+        } catch {
+            throw new RedditApiError('invalid_response', 'Reddit returned a response that is not JSON', res.status);
+        }
+    }
+
+    /**
+     * Resolves the URL and headers for a request: oauth.reddit.com with a bearer token
+     * when OAuth is configured, otherwise the public endpoint. If the token can't be
+     * fetched, falls back to the public endpoint rather than failing the request; a token
+     * request that timed out fails it, so a hanging token endpoint can't stall the queue.
+     */
+    private async resolveTarget(url: string): Promise<{ url: string; headers: Record<string, string> }> {
+        try {
+            const auth = await getRedditAuth();
+            if (auth) {
+                return {
+                    url: toOAuthUrl(url),
+                    headers: { Authorization: `Bearer ${auth.token}`, 'User-Agent': auth.userAgent },
+                };
+            }
+        } catch (error) {
+            if (error instanceof RedditApiError && error.kind === 'timeout') throw error;
+            console.warn('Reddit OAuth token unavailable, using the public endpoint:', error);
+        }
+        return { url, headers: { 'User-Agent': USER_AGENT } };
+    }
+
+    /**
+     * Wraps fetch with a timeout to prevent hanging requests.
+     */
+    private async send(request: QueuedRequest): Promise<Response> {
+        const target = await this.resolveTarget(request.url);
+        const controller = new AbortController();
+        const id = setTimeout(() => controller.abort(), request.options.timeout ?? DEFAULT_TIMEOUT_MS);
+        try {
+            return await fetch(target.url, {
+                method: request.options.method ?? 'GET',
+                headers: target.headers,
+                signal: controller.signal,
+            });
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new RedditApiError('timeout', 'Reddit request timed out');
+            }
+            throw new RedditApiError('network', `Reddit request failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            clearTimeout(id);
+        }
+    }
+}
+
+let scheduler: RedditScheduler | null = null;
+
+function getScheduler(): RedditScheduler {
+    if (!scheduler) {
+        scheduler = new RedditScheduler(
+            readPositiveInt(process.env.REDDIT_MAX_CONCURRENT, DEFAULT_MAX_CONCURRENT),
+            readPositiveInt(
+                process.env.REDDIT_REQUESTS_PER_MINUTE,
+                isRedditOAuthConfigured() ? DEFAULT_OAUTH_REQUESTS_PER_MINUTE : DEFAULT_REQUESTS_PER_MINUTE
+            )
+        );
+    }
+    return scheduler;
+}
+
+/**
+ * Fetches a Reddit JSON endpoint through the shared outbound queue.
+ */
+export function redditFetchJson<T>(url: string, options: RedditRequestOptions = {}): Promise<T> {
+    return getScheduler().fetchJson<T>(url, options);
+}
@@ -1,8 +1,11 @@
 
-import { RedditPost } from '@/types';
+import { AuthorComment, AuthorProfile, PostDetails, RedditComment, RedditPost, SubredditInfo, SubredditRule } from '@/types';
+import { redditFetchJson } from '@/lib/reddit-scheduler';
+import { parseSubreddits } from '@/lib/subreddits';
+import { coveringWindow, DateBounds, isWithinBounds, presetBounds, RedditTimeWindow } from '@/lib/date-range';
 
-const REDDIT_SEARCH_URL = 'https://www.reddit.com/search.json';
-const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const REDDIT_BASE_URL = 'https://www.reddit.com';
+const REDDIT_SEARCH_URL = `${REDDIT_BASE_URL}/search.json`;
 
 type RedditListingChild = {
     data?: {
@@ -19,156 +22,665 @@ type RedditListingChild = {
         upvote_ratio?: number;
         created_utc?: number;
         thumbnail?: string;
+        crosspost_parent?: string;
     };
 };
 
 type RedditSearchResponse = {
     data?: {
+        after?: string | null;
         children?: RedditListingChild[];
     };
 };
 
+type RedditCommentData = {
+    id?: string;
+    name?: string;
+    author?: string;
+    body?: string;
+    score?: number;
+    depth?: number;
+    created_utc?: number;
+    permalink?: string;
+    parent_id?: string;
+    children?: string[]; // Only on "more" stubs
+    replies?: '' | { data?: { children?: RedditCommentThing[] } };
+};
+
+type RedditCommentThing = {
+    kind?: string; // 't1' comment or 'more' stub
+    data?: RedditCommentData;
+};
+
 type RedditCommentsResponse = Array<{
+    data?: {
+        children?: Array<RedditCommentThing | RedditListingChild>;
+    };
+}>;
+
+type RedditMoreChildrenResponse = {
+    json?: {
+        data?: {
+            things?: RedditCommentThing[];
+        };
+    };
+};
+
+type RedditSubredditData = {
+    display_name?: string;
+    title?: string;
+    public_description?: string;
+    subscribers?: number;
+    active_user_count?: number | null;
+    accounts_active?: number | null;
+    created_utc?: number;
+    over18?: boolean;
+    icon_img?: string;
+    community_icon?: string;
+    url?: string;
+};
+
+type RedditSubredditThing = {
+    kind?: string; // 't5' for a subreddit; a 'Listing' means Reddit redirected to search
+    data?: RedditSubredditData;
+};
+
+type RedditSubredditListing = {
+    data?: {
+        children?: RedditSubredditThing[];
+    };
+};
+
+type RedditRulesResponse = {
+    rules?: Array<{ short_name?: string; description?: string }>;
+};
+
+type RedditUserAbout = {
+    kind?: string; // 't2'
+    data?: {
+        name?: string;
+        link_karma?: number;
+        comment_karma?: number;
+        total_karma?: number;
+        created_utc?: number;
+        has_verified_email?: boolean;
+        is_suspended?: boolean;
+        is_mod?: boolean;
+        icon_img?: string;
+        snoovatar_img?: string;
+    };
+};
+
+type RedditUserCommentListing = {
     data?: {
         children?: Array<{
+            kind?: string;
             data?: {
+                name?: string;
                 body?: string;
+                score?: number;
+                subreddit?: string;
+                link_title?: string;
+                permalink?: string;
+                created_utc?: number;
             };
         }>;
     };
-}>;
+};
+
+type RedditSearchSort = 'relevance' | 'hot' | 'top' | 'new';
+type RedditSearchTime = 'all' | 'year' | 'month' | 'week' | 'day' | 'hour' | '15d';
+
+export interface PaginatedSearchOptions {
+    maxResults?: number;
+    sort?: RedditSearchSort;
+    time?: RedditSearchTime;
+    after?: string | null;
+    subreddits?: string[];
+    range?: DateBounds | null; // Only keep posts created within these bounds
+}
+
+export interface PaginatedSearchResult {
+    posts: RedditPost[];
+    after: string | null; // Cursor for the next page, null when Reddit has no more results
+}
+
+// Reddit caps a single listing page at 100 items
+const MAX_PAGE_SIZE = 100;
+export const MAX_RESULT_BUDGET = 500;
+// Pages fetched beyond what `maxResults` needs when a date range filters some posts out
+const MAX_EXTRA_RANGE_PAGES = 5;
+
+function mapListingChild(child: RedditListingChild): RedditPost {
+    const p = child?.data || {};
+    return {
+        id: p.name || `t3_${Math.random().toString(36).slice(2, 11)}`,
+        title: p.title || 'Untitled Post',
+        subreddit: p.subreddit || 'u/unknown',
+        author: p.author || 'deleted',
+        link: p.url || `https://reddit.com${p.permalink || ''}`,
+        permalink: p.permalink ? `${REDDIT_BASE_URL}${p.permalink}` : undefined,
+        selftext: (p.selftext || '').substring(0, 1000),
+        upvotes: p.ups || 0,
+        comments: p.num_comments || 0,
+        created: new Date((p.created_utc || Date.now() / 1000) * 1000).toISOString(),
+        upvote_ratio: p.upvote_ratio || 0,
+        created_utc: p.created_utc || 0,
+        thumbnail: p.thumbnail && p.thumbnail.startsWith('http') ? p.thumbnail : null,
+        crosspostParent: p.crosspost_parent || undefined,
+    } as RedditPost;
+}
 
 /**
- * Wraps fetch with a timeout to prevent hanging requests.
+ * Returns the global search endpoint, or the subreddit/multireddit one
+ * (`/r/a+b+c/search.json`) when the search is scoped.
  */
-async function fetchWithTimeout(url: string, options: RequestInit = {}, timeout = 8000) {
-    const controller = new AbortController();
-    const id = setTimeout(() => controller.abort(), timeout);
-    try {
-        const response = await fetch(url, {
-            ...options,
-            signal: controller.signal
-        });
-        return response;
-    } finally {
-        clearTimeout(id);
-    }
+function buildSearchEndpoint(subreddits: string[]): string {
+    if (subreddits.length === 0) return REDDIT_SEARCH_URL;
+    return `${REDDIT_BASE_URL}/r/${subreddits.map(encodeURIComponent).join('+')}/search.json`;
 }
 
 /**
- * Searches Reddit using the public JSON endpoint (No OAuth).
- * Simulates a browser request to avoid complex auth setup for read-only public data.
+ * Fetches a single page of search results. Throws RedditApiError on failure.
  */
-export async function searchReddit(
+async function fetchSearchPage(
     query: string,
-    limit: number = 25,
-    sort: 'relevance' | 'hot' | 'top' | 'new' = 'relevance',
-    time: 'all' | 'year' | 'month' | 'week' | 'day' | 'hour' | '15d' = 'all'
-): Promise<RedditPost[]> {
-    const timeParam = time === '15d' ? 'month' : time;
+    limit: number,
+    sort: RedditSearchSort,
+    time: RedditTimeWindow,
+    after?: string | null,
+    subreddits: string[] = []
+): Promise<PaginatedSearchResult> {
     const params = new URLSearchParams({
         q: query,
         limit: limit.toString(),
         sort: sort,
-        t: timeParam,
+        t: time,
         type: 'link', // Only posts, no subreddits/users
         include_over_18: 'off'
     });
+    if (after) params.set('after', after);
 
-    const url = `${REDDIT_SEARCH_URL}?${params.toString()}`;
+    const scoped = parseSubreddits(subreddits);
+    if (scoped.length > 0) params.set('restrict_sr', '1');
 
-    try {
-        const res = await fetchWithTimeout(url, {
-            headers: {
-                'User-Agent': USER_AGENT
-            }
-        });
+    const url = `${buildSearchEndpoint(scoped)}?${params.toString()}`;
+
+    const data = await redditFetchJson<RedditSearchResponse>(url);
+
+    // Defensive Mapping
+    const children = data?.data?.children || [];
+
+    return {
+        posts: children.map(mapListingChild),
+        after: data?.data?.after || null
+    };
+}
+
+/**
+ * Date bounds a search must honor: an explicit range wins, otherwise presets
+ * Reddit has no window for ("15d") become one.
+ */
+function resolveRange(time: RedditSearchTime, range?: DateBounds | null): DateBounds | null {
+    return range ?? presetBounds(time);
+}
+
+/**
+ * Searches Reddit through the outbound scheduler: oauth.reddit.com when OAuth
+ * credentials are configured, otherwise the public JSON endpoint.
+ * With a date range (or the "15d" preset) this pages through the covering window
+ * so that up to `limit` in-range posts are returned.
+ * Throws RedditApiError on failure so callers can tell "no results" from "Reddit failed".
+ */
+export async function searchReddit(
+    query: string,
+    limit: number = 25,
+    sort: RedditSearchSort = 'relevance',
+    time: RedditSearchTime = 'all',
+    subreddits: string[] = [],
+    range?: DateBounds | null
+): Promise<RedditPost[]> {
+    if (resolveRange(time, range)) {
+        const { posts } = await searchRedditPaginated(query, { maxResults: limit, sort, time, subreddits, range });
+        return posts.slice(0, limit);
+    }
+    const { posts } = await fetchSearchPage(query, limit, sort, time as RedditTimeWindow, null, subreddits);
+    return posts;
+}
+
+/**
+ * Searches Reddit across multiple pages by following the `after` cursor
+ * until `maxResults` posts are collected or Reddit runs out of results.
+ * Pages are paced by the shared outbound scheduler.
+ * With a date range, Reddit is searched with the smallest `t` window covering it, posts
+ * outside the range are dropped, and up to MAX_EXTRA_RANGE_PAGES more pages are read to
+ * make up for them. Whole pages are kept so the cursor never skips posts, which means a
+ * ranged search can return slightly more than `maxResults`.
+ * If a page fails, the posts collected so far are returned along with the
+ * cursor of the failed page so the caller can resume.
+ */
+export async function searchRedditPaginated(
+    query: string,
+    options: PaginatedSearchOptions = {}
+): Promise<PaginatedSearchResult> {
+    const {
+        sort = 'relevance',
+        time = 'all',
+        subreddits = [],
+    } = options;
+    const maxResults = Math.max(1, Math.min(options.maxResults ?? 25, MAX_RESULT_BUDGET));
+    const range = resolveRange(time, options.range);
+    const window = range ? coveringWindow(range) : time as RedditTimeWindow;
+    const maxPages = range ? Math.ceil(maxResults / MAX_PAGE_SIZE) + MAX_EXTRA_RANGE_PAGES : Infinity;
+
+    const posts: RedditPost[] = [];
+    const seen = new Set<string>();
+    let after = options.after ?? null;
+    let isFirstPage = true;
+    let pagesFetched = 0;
 
-        if (res.status === 429) {
-            throw new Error('Reddit Rate Limit Exceeded (429)');
+    while (posts.length < maxResults && pagesFetched < maxPages) {
+        // Ranged searches discard some posts, so always ask for full pages
+        const pageSize = range ? MAX_PAGE_SIZE : Math.min(MAX_PAGE_SIZE, maxResults - posts.length);
+        let page: PaginatedSearchResult;
+        try {
+            page = await fetchSearchPage(query, pageSize, sort, window, after, subreddits);
+        } catch (error) {
+            if (isFirstPage) throw error;
+            console.error('Reddit pagination stopped early:', error);
+            break;
         }
+        isFirstPage = false;
+        pagesFetched++;
 
-        if (!res.ok) {
-            throw new Error(`Reddit API Error: ${res.status}`);
+        for (const post of page.posts) {
+            if (seen.has(post.id)) continue;
+            if (range && !isWithinBounds(post.created_utc, range)) continue;
+            seen.add(post.id);
+            posts.push(post);
         }
 
-        const data = (await res.json()) as RedditSearchResponse;
+        after = page.after;
+        if (!after || page.posts.length === 0) {
+            after = null;
+            break;
+        }
+    }
+
+    return { posts, after };
+}
+
+/**
+ * Icon URLs come HTML-escaped with query strings (`&amp;`); keep only usable http(s) URLs.
+ */
+function cleanIconUrl(url: string | undefined): string | null {
+    const clean = (url || '').replace(/&amp;/g, '&');
+    return clean.startsWith('http') ? clean : null;
+}
+
+function mapSubreddit(data: RedditSubredditData): SubredditInfo | null {
+    if (!data.display_name) return null;
+    const activeUsers = data.active_user_count ?? data.accounts_active;
+    return {
+        name: data.display_name,
+        title: data.title || data.display_name,
+        description: data.public_description || '',
+        subscribers: data.subscribers || 0,
+        activeUsers: typeof activeUsers === 'number' ? activeUsers : null,
+        created: new Date((data.created_utc || 0) * 1000).toISOString(),
+        created_utc: data.created_utc || 0,
+        over18: Boolean(data.over18),
+        icon: cleanIconUrl(data.community_icon) ?? cleanIconUrl(data.icon_img),
+        url: `${REDDIT_BASE_URL}${data.url || `/r/${data.display_name}/`}`,
+    };
+}
+
+/**
+ * Searches communities by name and description. NSFW communities are excluded.
+ * Throws RedditApiError on failure.
+ */
+export async function searchSubreddits(query: string, limit: number = 25): Promise<SubredditInfo[]> {
+    const params = new URLSearchParams({
+        q: query,
+        limit: String(Math.max(1, Math.min(limit, MAX_PAGE_SIZE))),
+        include_over_18: 'off',
+    });
+    const data = await redditFetchJson<RedditSubredditListing>(`${REDDIT_BASE_URL}/subreddits/search.json?${params.toString()}`);
+
+    return (data?.data?.children || [])
+        .map((child) => (child.kind === 't5' && child.data ? mapSubreddit(child.data) : null))
+        .filter((info): info is SubredditInfo => info !== null && !info.over18);
+}
+
+/**
+ * Fetches a community's profile and rules. Returns null when the subreddit doesn't exist
+ * (Reddit answers unknown names with a search listing instead of a 404).
+ * Throws RedditApiError when the profile can't be fetched (e.g. private or banned: not_found);
+ * missing rules only leave `rules` empty.
+ */
+export async function getSubredditInfo(name: string): Promise<SubredditInfo | null> {
+    const base = `${REDDIT_BASE_URL}/r/${encodeURIComponent(name)}`;
+    const [about, rules] = await Promise.all([
+        redditFetchJson<RedditSubredditThing>(`${base}/about.json`),
+        redditFetchJson<RedditRulesResponse>(`${base}/about/rules.json`).catch((error: unknown) => {
+            console.warn(`Could not fetch rules for r/${name}:`, error);
+            return null;
+        }),
+    ]);
+
+    const info = about?.kind === 't5' && about.data ? mapSubreddit(about.data) : null;
+    if (!info) return null;
+
+    info.rules = (rules?.rules || [])
+        .filter((rule) => rule.short_name)
+        .map((rule): SubredditRule => ({ shortName: rule.short_name || '', description: rule.description || '' }));
+    return info;
+}
+
+/**
+ * Lists a community's hot or top posts (`/r/{name}/hot.json`, `/r/{name}/top.json`).
+ * `time` only applies to top. Throws RedditApiError on failure.
+ */
+export async function getSubredditPosts(
+    name: string,
+    sort: 'hot' | 'top' = 'hot',
+    time: RedditTimeWindow = 'week',
+    limit: number = 25
+): Promise<RedditPost[]> {
+    const params = new URLSearchParams({ limit: String(Math.max(1, Math.min(limit, MAX_PAGE_SIZE))) });
+    if (sort === 'top') params.set('t', time);
 
-        // Defensive Mapping
-        const children = data?.data?.children || [];
+    const data = await redditFetchJson<RedditSearchResponse>(
+        `${REDDIT_BASE_URL}/r/${encodeURIComponent(name)}/${sort}.json?${params.toString()}`
+    );
+    return (data?.data?.children || []).map(mapListingChild);
+}
+
+/**
+ * Fetches an account's karma and age. Returns null when Reddit has no such user.
+ * Suspended accounts come back with `isSuspended` and zeroed stats.
+ * Throws RedditApiError on failure; deleted accounts surface as not_found.
+ */
+export async function getUserProfile(name: string): Promise<AuthorProfile | null> {
+    const about = await redditFetchJson<RedditUserAbout>(`${REDDIT_BASE_URL}/user/${encodeURIComponent(name)}/about.json`);
+    const data = about?.data;
+    if (!data?.name) return null;
 
-        return children.map((child) => {
-            const p = child?.data || {};
+    const linkKarma = data.link_karma || 0;
+    const commentKarma = data.comment_karma || 0;
+    return {
+        name: data.name,
+        linkKarma,
+        commentKarma,
+        totalKarma: data.total_karma ?? linkKarma + commentKarma,
+        created: new Date((data.created_utc || 0) * 1000).toISOString(),
+        created_utc: data.created_utc || 0,
+        verified: Boolean(data.has_verified_email),
+        isSuspended: Boolean(data.is_suspended),
+        isMod: Boolean(data.is_mod),
+        icon: cleanIconUrl(data.snoovatar_img) ?? cleanIconUrl(data.icon_img),
+    };
+}
+
+/**
+ * Lists posts an account submitted, by default its all-time top posts.
+ * Throws RedditApiError on failure.
+ */
+export async function getUserPosts(
+    name: string,
+    sort: 'top' | 'new' = 'top',
+    time: RedditTimeWindow = 'all',
+    limit: number = 100
+): Promise<RedditPost[]> {
+    const params = new URLSearchParams({ sort, t: time, limit: String(Math.max(1, Math.min(limit, MAX_PAGE_SIZE))) });
+    const data = await redditFetchJson<RedditSearchResponse>(
+        `${REDDIT_BASE_URL}/user/${encodeURIComponent(name)}/submitted.json?${params.toString()}`
+    );
+    return (data?.data?.children || []).map(mapListingChild);
+}
+
+/**
+ * Lists an account's most recent comments with the threads they were left on.
+ * Throws RedditApiError on failure.
+ */
+export async function getUserComments(name: string, limit: number = 100): Promise<AuthorComment[]> {
+    const params = new URLSearchParams({ sort: 'new', limit: String(Math.max(1, Math.min(limit, MAX_PAGE_SIZE))) });
+    const data = await redditFetchJson<RedditUserCommentListing>(
+        `${REDDIT_BASE_URL}/user/${encodeURIComponent(name)}/comments.json?${params.toString()}`
+    );
+
+    return (data?.data?.children || [])
+        .filter((child) => child.kind === 't1' && child.data?.name)
+        .map((child) => {
+            const c = child.data || {};
             return {
-                id: p.name || `t3_${Math.random().toString(36).slice(2, 11)}`,
-                title: p.title || 'Untitled Post',
-                subreddit: p.subreddit || 'u/unknown',
-                author: p.author || 'deleted',
-                link: p.url || `https://reddit.com${p.permalink || ''}`,
-                selftext: (p.selftext || '').substring(0, 1000),
-                upvotes: p.ups || 0,
-                comments: p.num_comments || 0,
-                created: new Date((p.created_utc || Date.now() / 1000) * 1000).toISOString(),
-                upvote_ratio: p.upvote_ratio || 0,
-                created_utc: p.created_utc || 0,
-                thumbnail: p.thumbnail && p.thumbnail.startsWith('http') ? p.thumbnail : null
-            } as RedditPost;
+                id: c.name || '',
+                body: (c.body || '').substring(0, 1000),
+                score: c.score || 0,
+                subreddit: c.subreddit || '',
+                postTitle: c.link_title || '',
+                permalink: c.permalink ? `${REDDIT_BASE_URL}${c.permalink}` : undefined,
+                created_utc: c.created_utc || 0,
+            };
         });
+}
 
-    } catch (error) {
-        console.error('Reddit Search Failed:', error);
-        // Return empty array on failure so one failed query doesn't crash the whole batch
-        return [];
-    }
+const DEFAULT_COMMENT_DEPTH = 3;
+const DEFAULT_COMMENT_COUNT = 50;
+const MAX_COMMENT_COUNT = 500;
+// Each morechildren call resolves at most 100 ids; cap calls per post to stay polite
+const MORE_CHILDREN_BATCH = 100;
+const MAX_MORE_REQUESTS = 3;
+
+export interface CommentTreeOptions {
+    maxDepth?: number; // Deepest reply level to keep (top-level comments are depth 0)
+    maxComments?: number; // Total comments to collect across the whole tree
+    expandMore?: boolean; // Resolve "load more comments" stubs via /api/morechildren
+}
+
+interface CommentWalkState {
+    count: number;
+    maxDepth: number;
+    maxComments: number;
+    index: Map<string, RedditComment>;
+    pending: Array<{ parentId: string; ids: string[] }>;
 }
 
 /**
- * Fetches the details (comments) of a specific post.
- * @param permalink The permalink of the post (e.g., /r/subreddit/comments/id/title/)
- * @returns A string containing the top comments.
+ * True for comment bodies Reddit replaced after a deletion or removal.
  */
-export async function getPostDetails(permalink: string): Promise<string> {
-    // Ensure permalink starts with /r/ if not present, and handle full URLs
-    let cleanLink = permalink;
-    if (cleanLink.startsWith('https://www.reddit.com')) {
-        cleanLink = cleanLink.replace('https://www.reddit.com', '');
-    }
+export function isRemovedBody(body: string): boolean {
+    return body === '[deleted]' || body === '[removed]';
+}
+
+/**
+ * Normalises a permalink or full Reddit URL into a path without a trailing slash.
+ */
+function toRedditPath(permalink: string): string {
+    let cleanLink = permalink.replace(/^https?:\/\/(www\.|old\.)?reddit\.com/, '');
 
     // Remove trailing slash if present to avoid double slash
     if (cleanLink.endsWith('/')) {
         cleanLink = cleanLink.slice(0, -1);
     }
+    return cleanLink;
+}
 
-    const url = `https://www.reddit.com${cleanLink}.json?limit=10&sort=top`;
+function toComment(data: RedditCommentData): RedditComment | null {
+    if (!data.id) return null;
+    return {
+        id: data.name || `t1_${data.id}`,
+        author: data.author || 'deleted',
+        score: data.score || 0,
+        depth: data.depth || 0,
+        created_utc: data.created_utc || 0,
+        body: data.body || '',
+        permalink: data.permalink ? `${REDDIT_BASE_URL}${data.permalink}` : undefined,
+        replies: [],
+    };
+}
 
-    try {
-        const res = await fetchWithTimeout(url, {
-            headers: { 'User-Agent': USER_AGENT }
-        });
+/**
+ * Walks a comment listing depth-first, collecting comments until the depth or
+ * count budget runs out. "more" stubs are queued in `state.pending` for expansion.
+ */
+function walkCommentListing(children: RedditCommentThing[], state: CommentWalkState): RedditComment[] {
+    const result: RedditComment[] = [];
 
-        if (!res.ok) {
-            console.error(`Failed to fetch post details: ${res.status}`);
-            return '';
+    for (const child of children) {
+        if (state.count >= state.maxComments) break;
+        const data = child.data || {};
+
+        if (child.kind === 'more') {
+            const ids = (data.children || []).filter(Boolean);
+            if (ids.length > 0 && data.parent_id && (data.depth || 0) <= state.maxDepth) {
+                state.pending.push({ parentId: data.parent_id, ids });
+            }
+            continue;
         }
 
-        const data = (await res.json()) as RedditCommentsResponse;
+        if (child.kind !== 't1') continue;
+        const comment = toComment(data);
+        if (!comment) continue;
+
+        const replies = typeof data.replies === 'object' ? data.replies?.data?.children || [] : [];
+        // Drop removed comments unless their replies are worth keeping
+        if (isRemovedBody(comment.body) && replies.length === 0) continue;
+
+        state.count++;
+        state.index.set(comment.id, comment);
+
+        if (comment.depth < state.maxDepth && replies.length > 0) {
+            comment.replies = walkCommentListing(replies, state);
+        }
+        result.push(comment);
+    }
+
+    return result;
+}
+
+/**
+ * Resolves queued "more" stubs through Reddit's morechildren endpoint and
+ * attaches the returned comments to their parents (or the top level).
+ */
+async function expandMoreComments(linkId: string, roots: RedditComment[], state: CommentWalkState): Promise<void> {
+    for (let request = 0; request < MAX_MORE_REQUESTS; request++) {
+        if (state.pending.length === 0 || state.count >= state.maxComments) return;
+
+        const ids: string[] = [];
+        while (state.pending.length > 0 && ids.length < MORE_CHILDREN_BATCH) {
+            const stub = state.pending[0];
+            const room = MORE_CHILDREN_BATCH - ids.length;
+            ids.push(...stub.ids.slice(0, room));
+            stub.ids = stub.ids.slice(room);
+            if (stub.ids.length === 0) state.pending.shift();
+        }
+
+        const params = new URLSearchParams({
+            api_type: 'json',
+            link_id: linkId,
+            children: ids.join(','),
+            sort: 'top',
+            limit_children: 'false',
+        });
+
+        const payload = await redditFetchJson<RedditMoreChildrenResponse>(
+            `${REDDIT_BASE_URL}/api/morechildren.json?${params.toString()}`
+        );
+        const things = payload?.json?.data?.things || [];
+
+        // Things come back flat in tree order, so parents always precede their replies
+        for (const thing of things) {
+            if (state.count >= state.maxComments) break;
+            const data = thing.data || {};
+
+            if (thing.kind === 'more') {
+                const moreIds = (data.children || []).filter(Boolean);
+                if (moreIds.length > 0 && data.parent_id && (data.depth || 0) <= state.maxDepth) {
+                    state.pending.push({ parentId: data.parent_id, ids: moreIds });
+                }
+                continue;
+            }
+
+            if (thing.kind !== 't1') continue;
+            const comment = toComment(data);
+            if (!comment || comment.depth > state.maxDepth || state.index.has(comment.id)) continue;
+            if (isRemovedBody(comment.body)) continue;
 
-        if (!Array.isArray(data) || data.length < 2) {
-            return '';
+            const parentId = data.parent_id || '';
+            const parent = state.index.get(parentId);
+            if (parent) {
+                parent.replies.push(comment);
+            } else if (parentId.startsWith('t3_')) {
+                roots.push(comment);
+            } else {
+                continue; // Parent was trimmed by the budget
+            }
+
+            state.count++;
+            state.index.set(comment.id, comment);
         }
+    }
+}
 
-        // data[0] is the post, data[1] is the comments
-        const commentsListing = data[1];
-        const comments = commentsListing?.data?.children || [];
+/**
+ * Fetches a post and its comment tree, including nested replies.
+ * Walks up to `maxDepth` reply levels and `maxComments` comments in total,
+ * optionally expanding "load more comments" stubs.
+ * Throws RedditApiError when the post itself can't be fetched; a failed
+ * "more comments" expansion only trims the tree.
+ * @param permalink The permalink of the post (e.g., /r/subreddit/comments/id/title/) or its full URL
+ */
+export async function getPostDetails(permalink: string, options: CommentTreeOptions = {}): Promise<PostDetails> {
+    const maxDepth = Math.max(0, Math.min(options.maxDepth ?? DEFAULT_COMMENT_DEPTH, 10));
+    const maxComments = Math.max(1, Math.min(options.maxComments ?? DEFAULT_COMMENT_COUNT, MAX_COMMENT_COUNT));
+    const expandMore = options.expandMore ?? true;
 
-        return comments
-            .map((comment) => comment.data?.body || '')
-            .filter((body: string) => body && body !== '[deleted]' && body !== '[removed]')
-            .slice(0, 5) // Top 5 comments
-            .join('\\n---\\n');
+    const params = new URLSearchParams({
+        limit: String(maxComments),
+        depth: String(maxDepth + 1),
+        sort: 'top',
+    });
+    const url = `${REDDIT_BASE_URL}${toRedditPath(permalink)}.json?${params.toString()}`;
+
+    const data = await redditFetchJson<RedditCommentsResponse>(url);
+
+    if (!Array.isArray(data) || data.length < 2) {
+        return { post: null, comments: [] };
+    }
 
-    } catch (error) {
-        console.error('Error fetching post details:', error);
-        return '';
+    // data[0] is the post, data[1] is the comments
+    const postChild = data[0]?.data?.children?.[0] as RedditListingChild | undefined;
+    const post = postChild?.data ? mapListingChild(postChild) : null;
+    if (post && postChild?.data?.selftext) {
+        post.selftext = postChild.data.selftext; // Keep the full body for detail views
     }
+
+    const state: CommentWalkState = {
+        count: 0,
+        maxDepth,
+        maxComments,
+        index: new Map(),
+        pending: [],
+    };
+    const comments = walkCommentListing(data[1]?.data?.children || [], state);
+
+    const linkId = post?.id;
+    if (expandMore && linkId) {
+        try {
+            await expandMoreComments(linkId, comments, state);
+        } catch (error) {
+            // Partial trees are still useful; keep what we have
+            console.error('Error expanding more comments:', error);
+        }
+    }
+
+    return { post, comments };
+}
+
+/**
+ * Flattens a comment tree depth-first (parents before their replies).
+ */
+export function flattenComments(comments: RedditComment[]): RedditComment[] {
+    return comments.flatMap((comment) => [comment, ...flattenComments(comment.replies)]);
 }
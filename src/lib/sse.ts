@@ -0,0 +1,64 @@
+/**
+ * Minimal Server-Sent Events helpers shared by routes and client hooks.
+ * Works on any fetch body stream, so it's usable on both sides (unlike EventSource, which can't POST).
+ */
+
+export interface SseEvent {
+    event: string; // Defaults to "message" when the frame has no event field
+    data: string;
+}
+
+function parseFrame(frame: string): SseEvent | null {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of frame.split(/\r?\n/)) {
+        if (!line || line.startsWith(':')) continue; // Blank or comment/keep-alive
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+    }
+
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Reads SSE frames from a response body as they arrive.
+ * Breaking out of the loop cancels the underlying stream.
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                finished = true;
+                break;
+            }
+            buffer += decoder.decode(value, { stream: true });
+
+            let match: RegExpExecArray | null;
+            while ((match = /\r?\n\r?\n/.exec(buffer)) !== null) {
+                const frame = parseFrame(buffer.slice(0, match.index));
+                buffer = buffer.slice(match.index + match[0].length);
+                if (frame) yield frame;
+            }
+        }
+
+        const last = parseFrame(buffer + decoder.decode());
+        if (last) yield last;
+    } finally {
+        if (!finished) await reader.cancel().catch(() => undefined);
+    }
+}
+
+export function formatSseEvent(event: string, data: unknown): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,43 @@
+/**
+ * Subreddit name parsing shared by the search form and the API routes.
+ * Accepts "r/name", "/r/name", plain names and multireddit syntax ("a+b+c").
+ */
+
+export const MAX_SUBREDDITS = 10;
+
+// Reddit community names: 2-21 chars, letters, digits and underscores
+const SUBREDDIT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_]{1,20}$/;
+
+export function isValidSubredditName(name: string): boolean {
+    return SUBREDDIT_NAME_PATTERN.test(name);
+}
+
+/**
+ * Strips the optional "r/" prefix and surrounding slashes from a single name.
+ */
+export function cleanSubredditName(raw: string): string {
+    return raw.trim().replace(/^\/?r\//i, '').replace(/\/+$/, '');
+}
+
+/**
+ * Splits a comma, space or "+" separated list into unique, valid subreddit names.
+ * Invalid names are dropped; the result is capped at MAX_SUBREDDITS.
+ */
+export function parseSubreddits(input: string | string[] | null | undefined): string[] {
+    if (!input) return [];
+    const parts = (Array.isArray(input) ? input : [input])
+        .flatMap((value) => (typeof value === 'string' ? value.split(/[\s,+]+/) : []))
+        .map(cleanSubredditName)
+        .filter(isValidSubredditName);
+
+    const seen = new Set<string>();
+    const unique: string[] = [];
+    for (const name of parts) {
+        const key = name.toLowerCase();
+        if (seen.has(key)) continue;
+        seen.add(key);
+        unique.push(name);
+    }
+
+    return unique.slice(0, MAX_SUBREDDITS);
+}
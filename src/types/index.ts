@@ -6,6 +6,7 @@ export interface RedditPost {
     upvotes: number;
     comments: number;
     link: string;
+    permalink?: string; // Reddit thread URL (link may point off-site for link posts)
     subreddit: string;
     created: string; // ISO date string
     author: string;
@@ -17,21 +18,169 @@ export interface RedditPost {
     frequencyBonus?: number;
     semanticScore?: number;
     hScore?: number;
+    bm25Score?: number; // Lexical match of title + body against the user's query
+    lexicalMatch?: boolean; // Title contains the query phrase verbatim; kept even below the semantic threshold
+    fusionScore?: number; // Reciprocal rank fusion of the scores above
+    crosspostParent?: string; // Fullname of the original post when this is a crosspost
+    similarPosts?: RedditPost[]; // Crossposts and near-duplicates folded into this post
+    clusterUpvotes?: number; // Engagement summed over this post and its similarPosts
+    clusterComments?: number;
 }
 
+export interface RedditComment {
+    id: string; // Fullname, e.g. t1_abc123
+    author: string;
+    score: number;
+    depth: number; // 0 for top-level comments
+    created_utc: number;
+    body: string;
+    permalink?: string;
+    replies: RedditComment[];
+}
+
+export interface PostDetails {
+    post: RedditPost | null;
+    comments: RedditComment[];
+}
+
+export interface SubredditRule {
+    shortName: string;
+    description: string;
+}
+
+/**
+ * Community profile from Reddit's `about.json` (and `about/rules.json`).
+ */
+export interface SubredditInfo {
+    name: string; // Display name without the "r/" prefix
+    title: string;
+    description: string; // Short public description
+    subscribers: number;
+    activeUsers: number | null; // Null when Reddit hides the count
+    created: string; // ISO date
+    created_utc: number;
+    over18: boolean;
+    icon: string | null;
+    url: string;
+    rules?: SubredditRule[]; // Only on profile lookups, not search results
+}
+
+export interface SubredditSearchResponse {
+    subreddits: SubredditInfo[];
+    query: string;
+    cached: boolean;
+}
+
+export interface SubredditProfileResponse {
+    subreddit: SubredditInfo;
+    posts: RedditPost[];
+    sort: 'hot' | 'top';
+    time: TimeRange;
+    cached: boolean;
+}
+
+/**
+ * Account details from Reddit's `/user/{name}/about.json`.
+ */
+export interface AuthorProfile {
+    name: string;
+    linkKarma: number;
+    commentKarma: number;
+    totalKarma: number;
+    created: string; // ISO date
+    created_utc: number;
+    verified: boolean; // Verified email
+    isSuspended: boolean; // Suspended accounts expose no karma or history
+    isMod: boolean;
+    icon: string | null;
+}
+
+/**
+ * A comment from a user's history, with the thread it was left on.
+ */
+export interface AuthorComment {
+    id: string;
+    body: string;
+    score: number;
+    subreddit: string;
+    postTitle: string;
+    permalink?: string;
+    created_utc: number;
+}
+
+export interface AuthorSubredditActivity {
+    subreddit: string;
+    posts: number;
+    comments: number;
+    score: number; // Upvotes on posts plus comment scores in this subreddit
+}
+
+/**
+ * A pattern in an account's history worth a second look (see `src/lib/author-insights.ts`).
+ */
+export interface AuthorSignal {
+    kind: 'new-account' | 'low-karma' | 'high-volume' | 'repetitive' | 'single-domain' | 'single-subreddit' | 'suspended';
+    severity: 'info' | 'warning';
+    message: string;
+}
+
+export interface AuthorProfileResponse {
+    author: AuthorProfile;
+    topPosts: RedditPost[];
+    recentComments: AuthorComment[];
+    activeSubreddits: AuthorSubredditActivity[];
+    signals: AuthorSignal[];
+    cached: boolean;
+}
+
+/**
+ * A comment that matched a comment search, with the thread it was found in.
+ */
+export interface CommentSearchResult {
+    id: string; // Fullname, e.g. t1_abc123
+    author: string;
+    body: string;
+    score: number;
+    depth: number; // 0 for top-level comments
+    created_utc: number;
+    permalink?: string;
+    post: Pick<RedditPost, 'id' | 'title' | 'subreddit' | 'upvotes' | 'comments' | 'link' | 'permalink'>;
+}
+
+export interface CommentSearchResponse {
+    comments: CommentSearchResult[];
+    query: string;
+    postsSearched: number; // Threads whose comment trees were scanned
+    commentsScanned: number;
+    totalResults: number;
+    subreddits?: string[];
+    cached: boolean;
+}
+
+/**
+ * What the search page looks for: posts by keyword, posts by AI context, or comments inside the top threads.
+ */
+export type SearchMode = 'posts' | 'context' | 'comments';
+
 export interface SearchParams {
     keywords: string;
     sort: 'top' | 'hot' | 'relevance';
     time?: TimeRange;
+    subreddits?: string[]; // Restrict search to these communities (multireddit when > 1)
+    from?: string; // YYYY-MM-DD or ISO datetime; overrides `time` when set
+    to?: string;
 }
 
 export interface SearchResponse {
     posts: RedditPost[];
     cached: boolean;
     cacheAge?: number; // seconds since cached
+    refreshing?: boolean; // stale cache served while a background refresh runs
     query: string;
     sort: string;
     totalResults: number;
+    subreddits?: string[];
+    after?: string | null; // Reddit cursor for loading the next page
 }
 
 export interface GoogleAuthTokens {
@@ -52,7 +201,7 @@ export interface ExportResult {
     error?: string;
 }
 
-export type SortField = 'upvotes' | 'comments' | 'created' | 'title' | 'subreddit' | 'relevance';
+export type SortField = 'upvotes' | 'comments' | 'created' | 'title' | 'subreddit' | 'author' | 'relevance';
 export type SortDirection = 'asc' | 'desc';
 
 export interface SortConfig {
@@ -62,11 +211,87 @@ export interface SortConfig {
 
 export type TimeRange = 'hour' | 'day' | 'week' | '15d' | 'month' | 'year' | 'all';
 
+/**
+ * Reddit search fields. `text` is a plain (unfielded) term; the rest map to `field:value`.
+ */
+export type QueryField = 'text' | 'title' | 'selftext' | 'author' | 'subreddit' | 'flair' | 'site' | 'url' | 'self';
+
+export interface QueryClause {
+    id: string; // Stable key for editing in the builder
+    field: QueryField;
+    value: string; // For `self`: "yes" or "no"
+    exact?: boolean; // Quote the value as a phrase
+    negate?: boolean; // Prefix with NOT
+}
+
+/**
+ * A Reddit search query as clauses joined by one boolean operator.
+ * See `src/lib/reddit-query.ts` for parsing and serialization.
+ */
+export interface StructuredQuery {
+    operator: 'AND' | 'OR';
+    clauses: QueryClause[];
+}
+
+/**
+ * Custom creation-date bounds for a search (see `src/lib/date-range.ts`). Either end may be omitted.
+ */
+export interface DateRangeInput {
+    from?: string;
+    to?: string;
+}
+
+/**
+ * What a context search is looking for. Drives the semantic similarity threshold
+ * (see `adaptiveThreshold` in `src/lib/embeddings.ts`).
+ */
+export type QueryIntent = 'how-to' | 'story' | 'trend' | 'problem' | 'unknown';
+
+export type PipelinePreset = 'balanced' | 'strict' | 'exploratory';
+
+/**
+ * Tunables for the context relevance pipeline. See `src/lib/pipeline-config.ts` for bounds and defaults.
+ */
+export interface PipelineConfig {
+    maxQueries: number; // Reddit searches per run (the user's query plus AI expansions)
+    maxCandidates: number; // Posts sent to AI scoring after heuristic pre-ranking
+    minRelevance: number; // AI relevance (0–10) a post needs to be returned
+    highRelevance: number; // Posts at or above this rank ahead of the rest, regardless of engagement
+    upvoteWeight: number; // Engagement = upvotes * upvoteWeight + comments * commentWeight
+    commentWeight: number;
+    bm25Weight: number; // Rank-fusion weight of each signal; 0 leaves it out
+    semanticWeight: number;
+    heuristicWeight: number;
+    frequencyWeight: number;
+    relevanceWeight: number;
+    fusionK: number; // Reciprocal rank fusion constant; higher values flatten the gap between top ranks
+    order: 'engagement' | 'fusion'; // How posts are ordered within a relevance tier
+}
+
+/**
+ * What clients send as `pipeline` in the filter request body: an optional preset plus overrides.
+ */
+export type PipelineConfigInput = Partial<PipelineConfig> & { preset?: PipelinePreset };
+
 export interface FilterStats {
     input: number;
     semanticPass?: number;
+    lexicalRescued?: number; // Posts below the semantic threshold kept for an exact title match
+    duplicatesFolded?: number; // Crossposts and near-duplicates merged into another post
     analyzed?: number;
     output: number;
+    config?: PipelineConfig; // The effective config after defaults and presets
+    embeddingBackend?: 'hf' | 'local' | 'skipped'; // Which backend ran the semantic filter
+    embeddingCacheHits?: number; // Vectors reused from the embedding cache instead of re-embedded
+}
+
+/**
+ * An AI response that failed schema validation, reported alongside the (possibly partial) result.
+ */
+export interface LlmOutputIssue {
+    task: 'query-expansion' | 'scoring' | 'ideas' | 'hooks' | 'scripts';
+    errors: string[];
+    repaired: boolean; // True when the repair retry fixed it; `errors` are then from the first attempt
 }
 
 export interface ContextSearchResponse {
@@ -76,9 +301,26 @@ export interface ContextSearchResponse {
     cached?: boolean;
     totalResults?: number;
     query?: string;
+    subreddits?: string[];
     cacheAge?: number;
+    refreshing?: boolean;
+    intent?: QueryIntent;
+    llmIssues?: LlmOutputIssue[];
 }
 
+/**
+ * Stage events streamed by /api/context/filter when the client sends `Accept: text/event-stream`.
+ * Each is one SSE frame whose event name is `stage`.
+ */
+export type ContextPipelineEvent =
+    | { stage: 'queries'; queries: string[]; intent: QueryIntent }
+    | { stage: 'reddit'; query: string; count: number; failed?: boolean }
+    | { stage: 'candidates'; unique: number }
+    | { stage: 'semantic'; input: number; passed: number }
+    | { stage: 'scoring'; batch: number; totalBatches: number; posts: RedditPost[] }
+    | { stage: 'done'; response: ContextSearchResponse }
+    | { stage: 'error'; error: string; details?: string; status: number };
+
 export interface ContentIdea {
     hook: string;
     concept: string;
@@ -91,3 +333,29 @@ export interface VideoScripts {
     variation1: string; // Direct + Tactical
     variation2: string; // Story + Emotional
 }
+
+export type ScriptVariation = keyof VideoScripts;
+
+/** Events sent by /api/generate-scripts/stream, one per SSE frame (the frame's event name is `type`). */
+export type ScriptStreamEvent =
+    | { type: 'delta'; variation: ScriptVariation; text: string }
+    | { type: 'done'; scripts: VideoScripts; rateLimit: { remaining: number; limit: number; resetInSeconds: number }; issue?: LlmOutputIssue }
+    | { type: 'error'; error: string };
+
+export interface CacheKeyInfo {
+    key: string;
+    ttlRemaining: number; // seconds
+    size: number; // approximate bytes of the serialized value
+}
+
+export interface NamespaceStats {
+    hits: number;
+    misses: number;
+    sets: number;
+}
+
+export interface CacheStats {
+    backend: string;
+    entries: number;
+    namespaces: Record<string, NamespaceStats>;
+}